@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { compileRawRequestPolicy, evaluateRawRequestPolicy } from './allowlist.js';
+
+describe('evaluateRawRequestPolicy', () => {
+  const policy = compileRawRequestPolicy({
+    allow: ['GET /v1/charges/*', 'get /v1/radar/**', '* /v1/customers/{id}/balance_transactions'],
+    deny: ['GET /v1/charges/ch_blocked'],
+  });
+  const allowed = (method: string, path: string) =>
+    evaluateRawRequestPolicy(policy, method, path).allowed;
+
+  it('matches "*" against exactly one path segment', () => {
+    assert.equal(allowed('GET', '/v1/charges/ch_1'), true);
+    assert.equal(allowed('GET', '/v1/charges'), false);
+    assert.equal(allowed('GET', '/v1/charges/ch_1/refunds'), false);
+  });
+
+  it('matches "**" against any remaining segments, including none', () => {
+    assert.equal(allowed('GET', '/v1/radar'), true);
+    assert.equal(allowed('GET', '/v1/radar/value_lists/rsl_1'), true);
+  });
+
+  it('treats {placeholders} as one segment and "*" as any method', () => {
+    assert.equal(allowed('POST', '/v1/customers/cus_1/balance_transactions'), true);
+    assert.equal(allowed('DELETE', '/v1/customers/cus_1'), false);
+  });
+
+  it('compares methods case-insensitively and ignores the query string', () => {
+    assert.equal(allowed('get', '/v1/radar/early_fraud_warnings?limit=3'), true);
+    assert.equal(allowed('POST', '/v1/charges/ch_1'), false);
+  });
+
+  it('lets deny rules win over allow rules', () => {
+    const decision = evaluateRawRequestPolicy(policy, 'GET', '/v1/charges/ch_blocked');
+
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.rule, 'deny: GET /v1/charges/ch_blocked');
+  });
+
+  it('decodes segments before matching, so encoded paths cannot slip past deny rules', () => {
+    assert.equal(allowed('GET', '/v1/charges/ch%5Fblocked'), false);
+  });
+
+  it('rejects relative path segments', () => {
+    const decision = evaluateRawRequestPolicy(policy, 'GET', '/v1/charges/../payouts');
+
+    assert.equal(decision.rule, 'path_traversal');
+  });
+
+  it('allows everything not denied when no allow rules are set', () => {
+    const open = compileRawRequestPolicy({ deny: ['POST /v1/payouts'] });
+
+    assert.equal(evaluateRawRequestPolicy(open, 'POST', '/v1/refunds').allowed, true);
+    assert.equal(evaluateRawRequestPolicy(open, 'POST', '/v1/payouts').allowed, false);
+  });
+
+  it('blocks every non-GET method in read-only mode', () => {
+    const readOnly = compileRawRequestPolicy({ read_only: true });
+
+    assert.equal(evaluateRawRequestPolicy(readOnly, 'GET', '/v1/charges').allowed, true);
+    assert.equal(
+      evaluateRawRequestPolicy(readOnly, 'DELETE', '/v1/customers/cus_1').rule,
+      'read_only'
+    );
+  });
+});
+
+describe('compileRawRequestPolicy', () => {
+  it('rejects rules without a method', () => {
+    assert.throws(
+      () => compileRawRequestPolicy({ allow: ['/v1/charges'] }),
+      /Invalid raw_request_policy: allow\.0/
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+
+const rulePattern = /^(GET|POST|DELETE|\*)\s+(\/\S*)$/i;
+
+const ruleSchema = z
+  .string()
+  .trim()
+  .regex(rulePattern, 'Rules must look like "<METHOD> <path>", e.g. "GET /v1/charges/*".');
+
+export const rawRequestPolicySchema = z
+  .object({
+    read_only: z
+      .boolean()
+      .default(false)
+      .describe(
+        'When true, the whole server is read-only: stripe_raw_request only permits GET requests and every other tool that changes Stripe state is blocked.'
+      ),
+    allow: z
+      .array(ruleSchema)
+      .default([])
+      .describe(
+        'Method and path templates that are permitted, e.g. "GET /v1/charges/*". "*" matches one path segment, "**" matches any remaining segments, and "*" as the method matches every method. When empty, every request not denied is allowed.'
+      ),
+    deny: z
+      .array(ruleSchema)
+      .default([])
+      .describe('Method and path templates that are always blocked, e.g. "POST /v1/payouts". Deny rules win over allow rules.'),
+  })
+  .strict();
+
+export type RawRequestPolicyConfig = z.input<typeof rawRequestPolicySchema>;
+
+interface CompiledRule {
+  source: string;
+  method: string;
+  segments: string[];
+}
+
+export interface RawRequestPolicy {
+  readOnly: boolean;
+  allow: CompiledRule[];
+  deny: CompiledRule[];
+}
+
+export interface RawRequestDecision {
+  allowed: boolean;
+  rule: string | null;
+  reason: string;
+}
+
+export function compileRawRequestPolicy(
+  config: RawRequestPolicyConfig | undefined
+): RawRequestPolicy {
+  const parsed = parseConfigSection('raw_request_policy', rawRequestPolicySchema, config ?? {});
+
+  return {
+    readOnly: parsed.read_only,
+    allow: parsed.allow.map(compileRule),
+    deny: parsed.deny.map(compileRule),
+  };
+}
+
+export function evaluateRawRequestPolicy(
+  policy: RawRequestPolicy,
+  method: string,
+  path: string
+): RawRequestDecision {
+  const upperMethod = method.toUpperCase();
+  const segments = splitPath(path);
+
+  if (segments.some((segment) => segment === '.' || segment === '..')) {
+    return {
+      allowed: false,
+      rule: 'path_traversal',
+      reason: `${path} contains relative path segments.`,
+    };
+  }
+
+  if (policy.readOnly && upperMethod !== 'GET') {
+    return {
+      allowed: false,
+      rule: 'read_only',
+      reason: `Read-only mode is enabled; ${upperMethod} requests are blocked.`,
+    };
+  }
+
+  const denied = policy.deny.find((rule) => matchesRule(rule, upperMethod, segments));
+  if (denied) {
+    return {
+      allowed: false,
+      rule: `deny: ${denied.source}`,
+      reason: `${upperMethod} ${path} matches deny rule "${denied.source}".`,
+    };
+  }
+
+  if (policy.allow.length === 0) {
+    return { allowed: true, rule: null, reason: 'No allow rules configured.' };
+  }
+
+  const allowed = policy.allow.find((rule) => matchesRule(rule, upperMethod, segments));
+  if (allowed) {
+    return {
+      allowed: true,
+      rule: `allow: ${allowed.source}`,
+      reason: `${upperMethod} ${path} matches allow rule "${allowed.source}".`,
+    };
+  }
+
+  return {
+    allowed: false,
+    rule: 'allowlist',
+    reason: `${upperMethod} ${path} does not match any allow rule.`,
+  };
+}
+
+export function describeRawRequestPolicy(policy: RawRequestPolicy): {
+  read_only: boolean;
+  allow: string[];
+  deny: string[];
+} {
+  return {
+    read_only: policy.readOnly,
+    allow: policy.allow.map((rule) => rule.source),
+    deny: policy.deny.map((rule) => rule.source),
+  };
+}
+
+function compileRule(source: string): CompiledRule {
+  const match = rulePattern.exec(source);
+  // Guarded by ruleSchema, so the match always succeeds here.
+  const [, method = '*', path = '/'] = match ?? [];
+  return {
+    source: `${method.toUpperCase()} ${path}`,
+    method: method.toUpperCase(),
+    segments: splitPath(path),
+  };
+}
+
+function splitPath(path: string): string[] {
+  return (path.split('?')[0] ?? '')
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map(decodeSegment);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function matchesRule(rule: CompiledRule, method: string, segments: string[]): boolean {
+  if (rule.method !== '*' && rule.method !== method) {
+    return false;
+  }
+  return matchSegments(rule.segments, 0, segments, 0);
+}
+
+function matchSegments(
+  pattern: string[],
+  patternIndex: number,
+  segments: string[],
+  segmentIndex: number
+): boolean {
+  if (patternIndex === pattern.length) {
+    return segmentIndex === segments.length;
+  }
+  const current = pattern[patternIndex];
+  if (current === '**') {
+    for (let index = segmentIndex; index <= segments.length; index += 1) {
+      if (matchSegments(pattern, patternIndex + 1, segments, index)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  if (segmentIndex === segments.length) {
+    return false;
+  }
+  const isWildcard = current === '*' || /^\{[^}]+\}$/.test(current ?? '');
+  if (!isWildcard && current !== segments[segmentIndex]) {
+    return false;
+  }
+  return matchSegments(pattern, patternIndex + 1, segments, segmentIndex + 1);
+}
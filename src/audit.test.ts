@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { AuditLog } from './audit.js';
+import type { AuditRecord } from './audit.js';
+import { Logger } from './logger.js';
+
+function record(tool: string, objectId: string): AuditRecord {
+  return {
+    tool,
+    outcome: 'succeeded',
+    profile: 'default',
+    account: null,
+    inputs: { charge_id: objectId },
+    object_ids: [objectId],
+    stripe_request_id: 'req_test',
+    idempotency_key: 'stripe-mcp-test',
+    result: null,
+    error: null,
+  };
+}
+
+describe('AuditLog', () => {
+  let directory: string;
+  const logger = new Logger('error', 'test', []);
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'stripe-mcp-audit-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function writeChain(name: string): Promise<{ path: string; lines: string[] }> {
+    const path = join(directory, name);
+    const auditLog = new AuditLog(path, logger);
+    await Promise.all([
+      auditLog.record(record('stripe_create_refund', 'ch_1')),
+      auditLog.record(record('stripe_approve_review', 'prv_1')),
+      auditLog.record(record('stripe_create_refund', 'ch_2')),
+    ]);
+    return { path, lines: (await readFile(path, 'utf8')).trim().split('\n') };
+  }
+
+  it('chains concurrent appends in order and verifies them', async () => {
+    const { path, lines } = await writeChain('valid.jsonl');
+    const entries = lines.map(
+      (line) => JSON.parse(line) as { seq: number; prev_hash: string; hash: string }
+    );
+
+    assert.deepEqual(
+      entries.map((entry) => entry.seq),
+      [1, 2, 3]
+    );
+    assert.equal(entries[1]?.prev_hash, entries[0]?.hash);
+    assert.equal(entries[2]?.prev_hash, entries[1]?.hash);
+
+    const verification = await new AuditLog(path, logger).verify();
+    assert.equal(verification.valid, true);
+    assert.equal(verification.entries, 3);
+    assert.equal(verification.last_hash, entries[2]?.hash);
+  });
+
+  it('continues the chain from an existing file', async () => {
+    const { path } = await writeChain('resumed.jsonl');
+    const resumed = new AuditLog(path, logger);
+
+    const entry = await resumed.record(record('stripe_create_refund', 'ch_3'));
+
+    assert.equal(entry?.seq, 4);
+    assert.equal((await resumed.verify()).valid, true);
+  });
+
+  it('detects an edited entry', async () => {
+    const { path, lines } = await writeChain('edited.jsonl');
+    lines[1] = lines[1]!.replace('prv_1', 'prv_2');
+    await writeFile(path, `${lines.join('\n')}\n`, 'utf8');
+
+    const verification = await new AuditLog(path, logger).verify();
+
+    assert.equal(verification.valid, false);
+    assert.equal(verification.first_invalid_seq, 2);
+    assert.match(verification.problem ?? '', /modified/);
+  });
+
+  it('detects a removed entry', async () => {
+    const { path, lines } = await writeChain('removed.jsonl');
+    await writeFile(path, `${[lines[0], lines[2]].join('\n')}\n`, 'utf8');
+
+    const verification = await new AuditLog(path, logger).verify();
+
+    assert.equal(verification.valid, false);
+    assert.equal(verification.entries, 1);
+    assert.match(verification.problem ?? '', /Expected seq 2/);
+  });
+
+  it('reports a line that is not an audit entry', async () => {
+    const { path, lines } = await writeChain('malformed.jsonl');
+    lines[2] = '{"seq":';
+    await writeFile(path, `${lines.join('\n')}\n`, 'utf8');
+
+    const verification = await new AuditLog(path, logger).verify();
+
+    assert.equal(verification.valid, false);
+    assert.equal(verification.entries, 2);
+    assert.match(verification.problem ?? '', /Line 3 is not a valid audit entry/);
+  });
+
+  it('queries newest first by tool and object ID', async () => {
+    const { path } = await writeChain('query.jsonl');
+    const auditLog = new AuditLog(path, logger);
+
+    const refunds = await auditLog.query({ tool: 'stripe_create_refund', limit: 1 });
+    const review = await auditLog.query({ objectId: 'prv_1', limit: 10 });
+
+    assert.deepEqual(
+      refunds.entries.map((entry) => entry.object_ids),
+      [['ch_2']]
+    );
+    assert.equal(refunds.truncated, true);
+    assert.deepEqual(
+      review.entries.map((entry) => entry.tool),
+      ['stripe_approve_review']
+    );
+  });
+});
@@ -0,0 +1,299 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, existsSync } from 'node:fs';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+import { canonicalJson } from './confirmation.js';
+import type { Logger } from './logger.js';
+import type { Redactor } from './redaction.js';
+
+export const auditOutcomes = ['succeeded', 'failed', 'blocked', 'skipped'] as const;
+
+export type AuditOutcome = (typeof auditOutcomes)[number];
+
+export const auditLogConfigSchema = z
+  .object({
+    enabled: z
+      .boolean()
+      .default(true)
+      .describe('When false, mutating tool calls are not written to the audit log (default: true).'),
+    path: z
+      .string()
+      .trim()
+      .min(1)
+      .default('stripe-mcp-audit.jsonl')
+      .describe('JSONL file the audit trail is appended to (default: stripe-mcp-audit.jsonl in the working directory).'),
+  })
+  .strict();
+
+export type AuditLogConfigInput = z.input<typeof auditLogConfigSchema>;
+export type AuditLogConfig = z.infer<typeof auditLogConfigSchema>;
+
+export interface AuditRecord {
+  tool: string;
+  outcome: AuditOutcome;
+  profile: string;
+  account: string | null;
+  inputs: Record<string, unknown>;
+  object_ids: string[];
+  stripe_request_id: string | null;
+  idempotency_key: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface AuditEntry extends AuditRecord {
+  seq: number;
+  timestamp: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  createdGte?: number;
+  createdLte?: number;
+  tool?: string;
+  profile?: string;
+  objectId?: string;
+  outcome?: AuditOutcome;
+  limit: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  scanned: number;
+  truncated: boolean;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  last_seq: number | null;
+  last_hash: string | null;
+  first_invalid_seq: number | null;
+  problem: string | null;
+}
+
+const genesisHash = '0'.repeat(64);
+
+export function compileAuditLogConfig(config: AuditLogConfigInput | undefined): AuditLogConfig {
+  return parseConfigSection('audit_log', auditLogConfigSchema, config ?? {});
+}
+
+/**
+ * Each entry hashes its own content together with the previous entry's hash,
+ * so editing, removing, or reordering any line breaks every hash after it.
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+/**
+ * Drops confirmation tokens and masks secrets and PII before tool inputs are
+ * persisted.
+ */
+export function sanitizeAuditInputs(
+  input: Record<string, unknown>,
+  redactor: Redactor
+): Record<string, unknown> {
+  const { confirmation_token: _confirmationToken, ...rest } = input;
+  return redactor.redactValue(rest);
+}
+
+export class AuditLog {
+  private head: Promise<{ seq: number; hash: string }> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly path: string,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Appends an entry after every earlier append has finished. Failures are
+   * logged rather than thrown because the Stripe mutation has already
+   * happened by the time it is audited.
+   */
+  record(record: AuditRecord): Promise<AuditEntry | null> {
+    const next = this.queue.then(async () => {
+      try {
+        const head = await this.loadHead();
+        const unsigned: Omit<AuditEntry, 'hash'> = {
+          seq: head.seq + 1,
+          timestamp: new Date().toISOString(),
+          ...record,
+          prev_hash: head.hash,
+        };
+        const entry: AuditEntry = { ...unsigned, hash: hashAuditEntry(unsigned) };
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+        this.head = Promise.resolve({ seq: entry.seq, hash: entry.hash });
+        return entry;
+      } catch (error) {
+        this.head = null;
+        this.logger.error('Failed to append audit entry', {
+          path: this.path,
+          tool: record.tool,
+          outcome: record.outcome,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    });
+    this.queue = next;
+    return next;
+  }
+
+  async query({ createdGte, createdLte, tool, profile, objectId, outcome, limit }: AuditQuery): Promise<AuditQueryResult> {
+    await this.queue;
+    const matches: AuditEntry[] = [];
+    let scanned = 0;
+    for await (const { entry } of this.readEntries()) {
+      if (!entry) {
+        continue;
+      }
+      scanned += 1;
+      const created = Date.parse(entry.timestamp) / 1000;
+      if (createdGte !== undefined && created < createdGte) {
+        continue;
+      }
+      if (createdLte !== undefined && created > createdLte) {
+        continue;
+      }
+      if (tool && entry.tool !== tool) {
+        continue;
+      }
+      if (profile && entry.profile !== profile) {
+        continue;
+      }
+      if (outcome && entry.outcome !== outcome) {
+        continue;
+      }
+      if (objectId && !entry.object_ids.includes(objectId)) {
+        continue;
+      }
+      matches.push(entry);
+    }
+    matches.reverse();
+    return {
+      entries: matches.slice(0, limit),
+      scanned,
+      truncated: matches.length > limit,
+    };
+  }
+
+  async verify(): Promise<AuditVerification> {
+    await this.queue;
+    let previousSeq = 0;
+    let previousHash = genesisHash;
+    let count = 0;
+    for await (const { line, entry } of this.readEntries()) {
+      const fail = (problem: string): AuditVerification => ({
+        valid: false,
+        entries: count,
+        last_seq: count > 0 ? previousSeq : null,
+        last_hash: count > 0 ? previousHash : null,
+        first_invalid_seq: entry?.seq ?? previousSeq + 1,
+        problem,
+      });
+      if (!entry) {
+        return fail(`Line ${line} is not a valid audit entry.`);
+      }
+      if (entry.seq !== previousSeq + 1) {
+        return fail(`Expected seq ${previousSeq + 1} on line ${line} but found ${entry.seq}.`);
+      }
+      if (entry.prev_hash !== previousHash) {
+        return fail(`Entry ${entry.seq} does not link to the hash of entry ${previousSeq}.`);
+      }
+      const { hash, ...unsigned } = entry;
+      if (hashAuditEntry(unsigned) !== hash) {
+        return fail(`Entry ${entry.seq} has been modified; its hash does not match its content.`);
+      }
+      previousSeq = entry.seq;
+      previousHash = hash;
+      count += 1;
+    }
+    return {
+      valid: true,
+      entries: count,
+      last_seq: count > 0 ? previousSeq : null,
+      last_hash: count > 0 ? previousHash : null,
+      first_invalid_seq: null,
+      problem: null,
+    };
+  }
+
+  private loadHead(): Promise<{ seq: number; hash: string }> {
+    this.head ??= (async () => {
+      let head = { seq: 0, hash: genesisHash };
+      for await (const { entry } of this.readEntries()) {
+        if (entry) {
+          head = { seq: entry.seq, hash: entry.hash };
+        }
+      }
+      return head;
+    })();
+    return this.head;
+  }
+
+  private async *readEntries(): AsyncGenerator<{ line: number; entry: AuditEntry | null }> {
+    if (!existsSync(this.path)) {
+      return;
+    }
+    const lines = createInterface({
+      input: createReadStream(this.path, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+    let line = 0;
+    for await (const text of lines) {
+      line += 1;
+      if (text.trim().length === 0) {
+        continue;
+      }
+      yield { line, entry: parseAuditEntry(text) };
+    }
+  }
+}
+
+const auditLogs = new Map<string, AuditLog>();
+
+/**
+ * Sessions in the same process share one writer per file so appends stay
+ * serialised and the chain is never forked.
+ */
+export function openAuditLog(config: AuditLogConfig, logger: Logger): AuditLog | null {
+  if (!config.enabled) {
+    return null;
+  }
+  const path = resolve(config.path);
+  let auditLog = auditLogs.get(path);
+  if (!auditLog) {
+    auditLog = new AuditLog(path, logger.child('audit'));
+    auditLogs.set(path, auditLog);
+  }
+  return auditLog;
+}
+
+function parseAuditEntry(text: string): AuditEntry | null {
+  try {
+    const value = JSON.parse(text) as Partial<AuditEntry> | null;
+    if (
+      !value ||
+      typeof value !== 'object' ||
+      typeof value.seq !== 'number' ||
+      typeof value.hash !== 'string' ||
+      typeof value.prev_hash !== 'string' ||
+      typeof value.timestamp !== 'string' ||
+      typeof value.tool !== 'string' ||
+      !Array.isArray(value.object_ids)
+    ) {
+      return null;
+    }
+    return value as AuditEntry;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,167 @@
+import { performance } from 'node:perf_hooks';
+import type Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+import type { Logger } from './logger.js';
+
+export const stripeCacheConfigSchema = z
+  .object({
+    ttl_seconds: z
+      .number()
+      .int()
+      .positive()
+      .max(3600)
+      .default(60)
+      .describe('How long a fetched Stripe object is reused before it is fetched again (default: 60).'),
+    max_entries: z
+      .number()
+      .int()
+      .positive()
+      .max(100000)
+      .default(5000)
+      .describe('Number of cached objects kept; the oldest are dropped first (default: 5000).'),
+  })
+  .strict();
+
+export type StripeCacheConfigInput = z.input<typeof stripeCacheConfigSchema>;
+export type StripeCacheConfig = z.infer<typeof stripeCacheConfigSchema>;
+
+export type StripeFetchSource = 'network' | 'request' | 'cache';
+
+export interface StripeFetchStats {
+  network: number;
+  request: number;
+  cache: number;
+}
+
+export function compileStripeCacheConfig(
+  config: StripeCacheConfigInput | undefined
+): StripeCacheConfig | null {
+  if (config === undefined) {
+    return null;
+  }
+  return parseConfigSection('cache', stripeCacheConfigSchema, config);
+}
+
+/**
+ * Time-limited cache of fetched Stripe objects, shared by every tool of a
+ * server. Keys carry the profile and connected account, so the same object
+ * ID seen through different keys or accounts is cached separately.
+ */
+export class StripeObjectCache {
+  private readonly entries = new Map<string, { value: unknown; expires: number }>();
+
+  constructor(readonly config: StripeCacheConfig) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: unknown): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + this.config.ttl_seconds * 1000 });
+    while (this.entries.size > this.config.max_entries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Fetches made while serving one tool call. Concurrent and repeated requests
+ * for the same object share one Stripe call, and results fall through to the
+ * shared cache when one is configured. Failures are never cached.
+ */
+export class StripeFetcher {
+  private readonly pending = new Map<string, Promise<unknown>>();
+  private readonly counts: StripeFetchStats = { network: 0, request: 0, cache: 0 };
+
+  constructor(
+    readonly stripe: Stripe,
+    private readonly namespace: string,
+    private readonly cache: StripeObjectCache | null,
+    private readonly logger: Logger
+  ) {}
+
+  get stats(): StripeFetchStats {
+    return { ...this.counts };
+  }
+
+  fetch<T>(kind: string, id: string, load: (stripe: Stripe) => Promise<T>): Promise<T> {
+    const key = `${this.namespace}|${kind}|${id}`;
+    const started = performance.now();
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending.then((value) => {
+        this.record(kind, id, 'request', started);
+        return value as T;
+      });
+    }
+
+    const cached = this.cache?.get(key);
+    if (cached !== undefined) {
+      this.pending.set(key, Promise.resolve(cached));
+      this.record(kind, id, 'cache', started);
+      return Promise.resolve(cached as T);
+    }
+
+    const request = load(this.stripe).then(
+      (value) => {
+        this.cache?.set(key, value);
+        this.record(kind, id, 'network', started);
+        return value;
+      },
+      (error: unknown) => {
+        this.pending.delete(key);
+        this.logger.debug('Stripe fetch failed', {
+          kind,
+          id,
+          duration_ms: Math.round(performance.now() - started),
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    );
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Stores an object that arrived expanded inside another response, so a
+   * later fetch of the same ID does not go back to Stripe.
+   */
+  prime(kind: string, id: string, value: unknown): void {
+    const key = `${this.namespace}|${kind}|${id}`;
+    if (this.pending.has(key)) {
+      return;
+    }
+    this.pending.set(key, Promise.resolve(value));
+    this.cache?.set(key, value);
+  }
+
+  private record(kind: string, id: string, source: StripeFetchSource, started: number): void {
+    this.counts[source] += 1;
+    this.logger.debug('Stripe fetch', {
+      kind,
+      id,
+      source,
+      duration_ms: Math.round(performance.now() - started),
+    });
+  }
+}
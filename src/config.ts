@@ -0,0 +1,20 @@
+import type { z } from 'zod';
+
+/**
+ * Parses one section of the server config. Every issue is reported in a
+ * single error prefixed with the section's key, e.g. `Invalid cache: ...`.
+ */
+export function parseConfigSection<Schema extends z.ZodTypeAny>(
+  key: string,
+  schema: Schema,
+  value: unknown
+): z.output<Schema> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${key}: ${details}`);
+  }
+  return parsed.data;
+}
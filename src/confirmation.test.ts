@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { canonicalJson, ConfirmationStore } from './confirmation.js';
+
+describe('ConfirmationStore', () => {
+  const params = { charge: 'ch_test', amount: 500, metadata: { case: '42' } };
+
+  it('executes a token once, with the plan stored at issue time', () => {
+    const store = new ConfirmationStore(60);
+    const { token } = store.issue('stripe_create_refund', params, { targets: ['ch_test'] });
+
+    assert.deepEqual(store.consume('stripe_create_refund', token, params), {
+      targets: ['ch_test'],
+    });
+    assert.throws(() => store.consume('stripe_create_refund', token, params), /already used/);
+  });
+
+  it('binds the token to the parameters regardless of key order', () => {
+    const store = new ConfirmationStore(60);
+    const { token } = store.issue('stripe_create_refund', params);
+
+    assert.equal(
+      store.consume('stripe_create_refund', token, {
+        metadata: { case: '42' },
+        amount: 500,
+        charge: 'ch_test',
+      }),
+      null
+    );
+  });
+
+  it('rejects changed parameters and keeps the token for the original ones', () => {
+    const store = new ConfirmationStore(60);
+    const { token } = store.issue('stripe_create_refund', params);
+
+    assert.throws(
+      () => store.consume('stripe_create_refund', token, { ...params, amount: 5000 }),
+      /do not match the confirmed plan/
+    );
+    store.consume('stripe_create_refund', token, params);
+  });
+
+  it('rejects a token issued for another tool', () => {
+    const store = new ConfirmationStore(60);
+    const { token } = store.issue('stripe_raw_request', params);
+
+    assert.throws(
+      () => store.consume('stripe_create_refund', token, params),
+      /issued for stripe_raw_request/
+    );
+  });
+
+  it('rejects an expired token', () => {
+    const store = new ConfirmationStore(0);
+    const { token } = store.issue('stripe_create_refund', params);
+
+    assert.throws(() => store.consume('stripe_create_refund', token, params), /expired/);
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined entries', () => {
+    assert.equal(
+      canonicalJson({ b: [{ d: 1, c: undefined, a: null }], a: 'x' }),
+      '{"a":"x","b":[{"a":null,"d":1}]}'
+    );
+  });
+});
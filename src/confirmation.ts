@@ -0,0 +1,95 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+export interface ConfirmationGrant {
+  token: string;
+  expires_at: string;
+}
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  plan: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Issues short-lived, single-use tokens bound to the exact parameters of a
+ * planned mutation. A token only executes the plan it was issued for: any
+ * change to the parameters between preview and confirm is rejected.
+ */
+export class ConfirmationStore {
+  private readonly ttlMs: number;
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(ttlSeconds: number) {
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * `plan` holds anything the preview resolved that the confirming call must
+   * reuse rather than resolve again, such as targets selected by a query.
+   */
+  issue(tool: string, params: unknown, plan: unknown = null): ConfirmationGrant {
+    this.prune();
+    const token = `cfm_${randomBytes(18).toString('base64url')}`;
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, {
+      tool,
+      fingerprint: fingerprintParams(params),
+      plan,
+      expiresAt,
+    });
+    return { token, expires_at: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Returns the plan stored when the token was issued.
+   */
+  consume(tool: string, token: string, params: unknown): unknown {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending) {
+      throw new Error(
+        'Confirmation token is unknown, already used, or expired. Call the tool again without confirmation_token to get a new plan.'
+      );
+    }
+    if (pending.tool !== tool) {
+      throw new Error(`Confirmation token was issued for ${pending.tool}, not ${tool}.`);
+    }
+    if (pending.fingerprint !== fingerprintParams(params)) {
+      throw new Error(
+        'Parameters do not match the confirmed plan. Call the tool again without confirmation_token to get a new plan.'
+      );
+    }
+    this.pending.delete(token);
+    return pending.plan;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+export function fingerprintParams(params: unknown): string {
+  return createHash('sha256').update(canonicalJson(params)).digest('hex');
+}
+
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import Stripe from 'stripe';
+
+import {
+  compileRequestExecutionConfig,
+  emptyStripeRequestStats,
+  StripeRequestExecutor,
+  trackStripeRequests,
+} from './execution.js';
+import { Logger } from './logger.js';
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  idempotencyKey: string | null;
+}
+
+type Reply = { status: number; headers?: Record<string, string>; body?: unknown };
+
+describe('StripeRequestExecutor', () => {
+  let server: Server;
+  let apiBase: string;
+  let received: ReceivedRequest[];
+  let replies: Reply[];
+
+  before(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      req.resume();
+      req.on('end', () => {
+        const key = req.headers['idempotency-key'];
+        received.push({
+          method: req.method ?? '',
+          url: req.url ?? '',
+          idempotencyKey: typeof key === 'string' ? key : null,
+        });
+        const reply = replies.shift() ?? { status: 200 };
+        res.writeHead(reply.status, {
+          'Content-Type': 'application/json',
+          'Request-Id': `req_${received.length}`,
+          ...reply.headers,
+        });
+        res.end(
+          JSON.stringify(
+            reply.body ??
+              (reply.status < 400
+                ? { id: 'cus_test', object: 'customer' }
+                : { error: { type: 'api_error', message: `status ${reply.status}` } })
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    replies = [];
+  });
+
+  const client = (overrides: Record<string, number> = {}) => {
+    const executor = new StripeRequestExecutor(
+      compileRequestExecutionConfig({
+        api_base: apiBase,
+        max_retries: 2,
+        initial_backoff_ms: 1,
+        max_backoff_ms: 5,
+        ...overrides,
+      }),
+      new Logger('error', 'test', [])
+    );
+    return new Stripe('sk_test_executor', executor.stripeConfig());
+  };
+
+  it('retries 429 and 5xx responses and counts them', async () => {
+    replies = [{ status: 429 }, { status: 503 }, { status: 200 }];
+    const stats = emptyStripeRequestStats();
+
+    const customer = await trackStripeRequests(stats, () =>
+      client().customers.retrieve('cus_test')
+    );
+
+    assert.equal(customer.id, 'cus_test');
+    assert.equal(received.length, 3);
+    assert.equal(stats.requests, 3);
+    assert.equal(stats.retries, 2);
+    assert.equal(stats.rate_limited, 1);
+  });
+
+  it('gives up after max_retries and returns the last error', async () => {
+    replies = [{ status: 500 }, { status: 500 }, { status: 500 }, { status: 200 }];
+
+    await assert.rejects(client().customers.retrieve('cus_test'), Stripe.errors.StripeAPIError);
+    assert.equal(received.length, 3);
+  });
+
+  it('does not retry when Stripe-Should-Retry is false', async () => {
+    replies = [{ status: 503, headers: { 'Stripe-Should-Retry': 'false' } }];
+
+    await assert.rejects(client().customers.retrieve('cus_test'));
+    assert.equal(received.length, 1);
+  });
+
+  it('retries a 409 when Stripe-Should-Retry is true', async () => {
+    replies = [
+      {
+        status: 409,
+        headers: { 'Stripe-Should-Retry': 'true' },
+        body: { error: { type: 'invalid_request_error', message: 'lock_timeout' } },
+      },
+      { status: 200 },
+    ];
+
+    await client().customers.retrieve('cus_test');
+    assert.equal(received.length, 2);
+  });
+
+  it('waits for Retry-After before retrying', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '1' } }, { status: 200 }];
+    const started = Date.now();
+
+    await client().customers.retrieve('cus_test');
+
+    assert.equal(received.length, 2);
+    assert.ok(Date.now() - started >= 900, 'expected the retry to wait about one second');
+  });
+
+  it('does not wait for a Retry-After above max_retry_after_seconds', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '120' } }, { status: 200 }];
+
+    await assert.rejects(client({ max_retry_after_seconds: 5 }).customers.retrieve('cus_test'));
+    assert.equal(received.length, 1);
+  });
+
+  it('reuses one generated idempotency key across POST retries', async () => {
+    replies = [{ status: 500 }, { status: 502 }, { status: 200 }];
+
+    await client().customers.create({ email: 'retry@example.com' });
+
+    assert.equal(received.length, 3);
+    const [first] = received;
+    assert.match(first?.idempotencyKey ?? '', /^stripe-mcp-/);
+    assert.ok(received.every((request) => request.idempotencyKey === first?.idempotencyKey));
+  });
+
+  it('keeps an idempotency key supplied by the caller', async () => {
+    replies = [{ status: 500 }, { status: 200 }];
+
+    await client().customers.create({}, { idempotencyKey: 'caller-key' });
+
+    assert.deepEqual(
+      received.map((request) => request.idempotencyKey),
+      ['caller-key', 'caller-key']
+    );
+  });
+
+  it('sends no idempotency key with GET requests', async () => {
+    await client().customers.retrieve('cus_test');
+
+    assert.equal(received[0]?.idempotencyKey, null);
+  });
+});
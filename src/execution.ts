@@ -0,0 +1,359 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomUUID } from 'node:crypto';
+import Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+import type { Logger } from './logger.js';
+
+export const requestExecutionConfigSchema = z
+  .object({
+    max_retries: z
+      .number()
+      .int()
+      .min(0)
+      .max(10)
+      .default(3)
+      .describe('Retries after a 429, a 5xx response, or a connection error (default: 3).'),
+    initial_backoff_ms: z
+      .number()
+      .int()
+      .positive()
+      .max(60000)
+      .default(500)
+      .describe('Delay before the first retry; it doubles on every further retry (default: 500).'),
+    max_backoff_ms: z
+      .number()
+      .int()
+      .positive()
+      .max(300000)
+      .default(8000)
+      .describe('Upper bound of the backoff delay before jitter is applied (default: 8000).'),
+    max_retry_after_seconds: z
+      .number()
+      .int()
+      .positive()
+      .max(600)
+      .default(60)
+      .describe('Longest Retry-After the server waits for. A longer one fails the request instead (default: 60).'),
+    rate_limit_per_second: z
+      .number()
+      .positive()
+      .max(1000)
+      .default(20)
+      .describe('Requests per second sent to Stripe per account before further requests queue client-side (default: 20).'),
+    burst: z
+      .number()
+      .int()
+      .positive()
+      .max(1000)
+      .default(20)
+      .describe('Requests per account that may be sent at once before rate_limit_per_second applies (default: 20).'),
+    api_base: z
+      .string()
+      .url()
+      .optional()
+      .describe(
+        'Base URL of the Stripe API, e.g. http://127.0.0.1:12111 for stripe-mock or a local fake server. Defaults to https://api.stripe.com.'
+      ),
+  })
+  .strict();
+
+export type RequestExecutionConfigInput = z.input<typeof requestExecutionConfigSchema>;
+export type RequestExecutionConfig = z.infer<typeof requestExecutionConfigSchema>;
+
+export interface StripeRequestStats {
+  requests: number;
+  retries: number;
+  rate_limited: number;
+  throttled_ms: number;
+}
+
+type HttpMethod = Parameters<Stripe.HttpClient['makeRequest']>[3];
+
+const statsStorage = new AsyncLocalStorage<StripeRequestStats>();
+
+export function compileRequestExecutionConfig(
+  config: RequestExecutionConfigInput | undefined
+): RequestExecutionConfig {
+  const parsed = parseConfigSection(
+    'request_execution',
+    requestExecutionConfigSchema,
+    config ?? {}
+  );
+  if (parsed.max_backoff_ms < parsed.initial_backoff_ms) {
+    throw new Error('Invalid request_execution: max_backoff_ms must not be below initial_backoff_ms');
+  }
+  if (parsed.api_base && !/^https?:\/\/[^/]+\/?$/.test(parsed.api_base)) {
+    throw new Error(
+      'Invalid request_execution: api_base must be an http(s) origin without a path, e.g. http://127.0.0.1:12111'
+    );
+  }
+  return parsed;
+}
+
+export function emptyStripeRequestStats(): StripeRequestStats {
+  return { requests: 0, retries: 0, rate_limited: 0, throttled_ms: 0 };
+}
+
+/**
+ * Key for one Stripe write. Tools generate it up front so the same key reaches
+ * both the request and the audit log, even when the request fails.
+ */
+export function newIdempotencyKey(): string {
+  return `stripe-mcp-${randomUUID()}`;
+}
+
+/**
+ * Counts every Stripe request made while `run` is in progress, including
+ * ones started by callbacks it awaits, into `stats`.
+ */
+export function trackStripeRequests<T>(stats: StripeRequestStats, run: () => T): T {
+  return statsStorage.run(stats, run);
+}
+
+/**
+ * Hands out one token per request, refilled continuously at `rate` per
+ * second up to `burst`. Callers are served in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updated = Date.now();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly rate: number,
+    readonly burst: number
+  ) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Resolves with the number of milliseconds the caller waited.
+   */
+  take(): Promise<number> {
+    const started = Date.now();
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+        this.refill();
+      }
+      this.tokens -= 1;
+      return Date.now() - started;
+    });
+    this.queue = next;
+    return next;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updated) / 1000) * this.rate);
+    this.updated = now;
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * Sessions in one process share a bucket per API key and account, so their
+ * combined rate stays under the limit. The first session's settings win.
+ */
+function acquireBucket(key: string, config: RequestExecutionConfig): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(config.rate_limit_per_second, config.burst);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * HTTP client used by every Stripe SDK instance of a server, so all tools,
+ * resources, and raw requests share the same rate limiting and retries. The
+ * SDK's own retries are turned off; POSTs always carry an idempotency key so
+ * a retried write is applied at most once.
+ */
+export class StripeRequestExecutor implements Stripe.HttpClient {
+  private readonly inner: Stripe.HttpClient;
+  private readonly rateLimit: boolean;
+
+  /**
+   * `transport` sends the individual attempts; fixture replay passes its own
+   * and turns the rate limit off because nothing reaches Stripe.
+   */
+  constructor(
+    readonly config: RequestExecutionConfig,
+    private readonly logger: Logger,
+    options: { transport?: Stripe.HttpClient; rateLimit?: boolean } = {}
+  ) {
+    this.inner = options.transport ?? Stripe.createNodeHttpClient();
+    this.rateLimit = options.rateLimit ?? true;
+  }
+
+  /**
+   * SDK options that route requests through this executor.
+   */
+  stripeConfig(): Stripe.StripeConfig {
+    const stripeConfig: Stripe.StripeConfig = {
+      httpClient: this,
+      maxNetworkRetries: 0,
+    };
+    if (this.config.api_base) {
+      const url = new URL(this.config.api_base);
+      stripeConfig.protocol = url.protocol === 'http:' ? 'http' : 'https';
+      stripeConfig.host = url.hostname;
+      stripeConfig.port = url.port || (url.protocol === 'http:' ? 80 : 443);
+    }
+    return stripeConfig;
+  }
+
+  getClientName(): string {
+    return this.inner.getClientName();
+  }
+
+  async makeRequest(
+    host: string,
+    port: string | number,
+    path: string,
+    method: HttpMethod,
+    headers: object,
+    requestData: string | null,
+    protocol: Stripe.HttpProtocol,
+    timeout: number
+  ): Promise<Stripe.HttpClientResponse> {
+    const requestHeaders = { ...(headers as Record<string, string>) };
+    if (method === 'POST' && headerValue(requestHeaders, 'idempotency-key') === null) {
+      requestHeaders['Idempotency-Key'] = newIdempotencyKey();
+    }
+    const account = headerValue(requestHeaders, 'stripe-account');
+    const keyHash = createHash('sha256')
+      .update(headerValue(requestHeaders, 'authorization') ?? '')
+      .digest('hex')
+      .slice(0, 16);
+    const bucket = this.rateLimit
+      ? acquireBucket(`${keyHash}|${account ?? 'platform'}`, this.config)
+      : null;
+    const stats = statsStorage.getStore();
+    const route = `${method} ${path.split('?')[0]}`;
+
+    for (let attempt = 0; ; attempt += 1) {
+      const waited = bucket ? await bucket.take() : 0;
+      if (stats) {
+        stats.requests += 1;
+        stats.throttled_ms += waited;
+      }
+
+      let response: Stripe.HttpClientResponse;
+      try {
+        response = await this.inner.makeRequest(
+          host,
+          port,
+          path,
+          method,
+          requestHeaders,
+          requestData,
+          protocol,
+          timeout
+        );
+      } catch (error) {
+        if (attempt >= this.config.max_retries) {
+          throw error;
+        }
+        const delay = this.backoff(attempt);
+        this.logger.warn('Stripe request failed to connect, retrying', {
+          route,
+          account,
+          attempt: attempt + 1,
+          delay_ms: delay,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+        if (stats) {
+          stats.retries += 1;
+        }
+        await sleep(delay);
+        continue;
+      }
+
+      const status = response.getStatusCode();
+      const responseHeaders = response.getHeaders();
+      const shouldRetry = headerValue(responseHeaders, 'stripe-should-retry');
+      const retryable =
+        shouldRetry === 'true' || (shouldRetry !== 'false' && (status === 429 || status >= 500));
+      if (stats && status === 429) {
+        stats.rate_limited += 1;
+      }
+      if (!retryable || attempt >= this.config.max_retries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(headerValue(responseHeaders, 'retry-after'));
+      if (retryAfter !== null && retryAfter > this.config.max_retry_after_seconds * 1000) {
+        this.logger.warn('Stripe Retry-After exceeds the configured maximum, not retrying', {
+          route,
+          account,
+          status,
+          retry_after_ms: retryAfter,
+        });
+        return response;
+      }
+      const delay = retryAfter ?? this.backoff(attempt);
+      await response.toJSON().catch(() => undefined);
+      this.logger.warn('Stripe request will be retried', {
+        route,
+        account,
+        status,
+        attempt: attempt + 1,
+        delay_ms: delay,
+        retry_after: retryAfter !== null,
+      });
+      if (stats) {
+        stats.retries += 1;
+      }
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Exponential backoff capped at max_backoff_ms, with jitter between half
+   * and all of the capped value.
+   */
+  private backoff(attempt: number): number {
+    const capped = Math.min(
+      this.config.max_backoff_ms,
+      this.config.initial_backoff_ms * 2 ** attempt
+    );
+    return Math.round(capped * (0.5 + Math.random() * 0.5));
+  }
+}
+
+/**
+ * Case-insensitive header lookup; `name` must be lower case.
+ */
+export function headerValue(headers: Record<string, unknown>, name: string): string | null {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return value === undefined || value === null ? null : String(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
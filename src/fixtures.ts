@@ -0,0 +1,317 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { Readable } from 'node:stream';
+import Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+import { headerValue } from './execution.js';
+import type { Logger } from './logger.js';
+
+export const fixtureConfigSchema = z
+  .object({
+    mode: z
+      .enum(['record', 'replay'])
+      .describe(
+        'record sends requests to Stripe and saves every request and response; replay serves saved responses without network access.'
+      ),
+    directory: z
+      .string()
+      .trim()
+      .min(1)
+      .default('stripe-fixtures')
+      .describe('Directory fixtures are written to and read from (default: stripe-fixtures in the working directory).'),
+    ignore_params: z
+      .array(z.string().trim().min(1))
+      .default(['created[gte]', 'created[lte]', 'created[gt]', 'created[lt]'])
+      .describe(
+        'Parameters left out when matching a request to a fixture. Defaults to the created time window, which tools derive from the current time.'
+      ),
+    allow_live_recording: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Allow record mode with a live-mode key. Fixtures are saved unmasked, so a live recording contains real customer data (default: false).'
+      ),
+  })
+  .strict();
+
+export type FixtureConfigInput = z.input<typeof fixtureConfigSchema>;
+export type FixtureConfig = z.infer<typeof fixtureConfigSchema>;
+
+type HttpMethod = Parameters<Stripe.HttpClient['makeRequest']>[3];
+
+export interface FixtureRequest {
+  method: HttpMethod;
+  path: string;
+  account: string | null;
+  params: string;
+}
+
+export interface Fixture {
+  request: FixtureRequest;
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  recorded_at: string;
+}
+
+const keptResponseHeaders = [
+  'request-id',
+  'idempotency-key',
+  'stripe-account',
+  'stripe-version',
+  'stripe-should-retry',
+];
+
+export function compileFixtureConfig(config: FixtureConfigInput | undefined): FixtureConfig | null {
+  if (config === undefined) {
+    return null;
+  }
+  return parseConfigSection('fixtures', fixtureConfigSchema, config);
+}
+
+/**
+ * One JSON file per distinct request, named after the method, the path, and
+ * a hash of the method, path, account, and normalized parameters.
+ */
+export class FixtureStore {
+  readonly mode: FixtureConfig['mode'];
+  readonly directory: string;
+  private readonly ignored: Set<string>;
+
+  constructor(config: FixtureConfig) {
+    this.mode = config.mode;
+    this.directory = resolve(config.directory);
+    this.ignored = new Set(config.ignore_params);
+  }
+
+  /**
+   * Parameters come from the query string or the form body. They are sorted
+   * so that the order the SDK encodes them in does not matter.
+   */
+  describe(
+    method: HttpMethod,
+    path: string,
+    headers: Record<string, unknown>,
+    requestData: string | null
+  ): FixtureRequest {
+    const [pathname = path, query = ''] = path.split('?', 2);
+    const params = [
+      ...new URLSearchParams(query).entries(),
+      ...new URLSearchParams(requestData ?? '').entries(),
+    ]
+      .filter(([name]) => !this.ignored.has(name))
+      .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+    return {
+      method,
+      path: pathname,
+      account: headerValue(headers, 'stripe-account'),
+      params: new URLSearchParams(params).toString(),
+    };
+  }
+
+  fileFor(request: FixtureRequest): string {
+    const hash = createHash('sha256')
+      .update(JSON.stringify([request.method, request.path, request.account, request.params]))
+      .digest('hex')
+      .slice(0, 16);
+    const slug = request.path
+      .replace(/^\/+/, '')
+      .replace(/[^A-Za-z0-9]+/g, '-')
+      .slice(0, 80);
+    return join(this.directory, `${request.method.toLowerCase()}-${slug}-${hash}.json`);
+  }
+
+  read(request: FixtureRequest): Fixture | null {
+    const file = this.fileFor(request);
+    if (!existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(readFileSync(file, 'utf8')) as Fixture;
+  }
+
+  /**
+   * Bodies are saved as Stripe returned them: replayed values feed later
+   * requests and equality checks, which masked values would break.
+   */
+  write(fixture: Fixture): string {
+    const file = this.fileFor(fixture.request);
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    return file;
+  }
+}
+
+/**
+ * Response built from a fixture, or from a recorded response whose body has
+ * already been read. The raw response carries the status and headers that
+ * tools read from lastResponse.
+ */
+export class FixtureResponse
+  implements
+    Stripe.HttpClientResponse<{ statusCode: number; headers: Record<string, string> }, Readable>
+{
+  constructor(
+    private readonly status: number,
+    private readonly headers: Record<string, string>,
+    private readonly body: unknown
+  ) {}
+
+  getStatusCode(): number {
+    return this.status;
+  }
+
+  getHeaders(): { [key: string]: string } {
+    return this.headers;
+  }
+
+  getRawResponse(): { statusCode: number; headers: Record<string, string> } {
+    return { statusCode: this.status, headers: { ...this.headers } };
+  }
+
+  toStream(streamCompleteCallback: () => void): Readable {
+    const stream = Readable.from([Buffer.from(JSON.stringify(this.body))]);
+    stream.on('end', streamCompleteCallback);
+    return stream;
+  }
+
+  toJSON(): Promise<object> {
+    return Promise.resolve(this.body as object);
+  }
+}
+
+/**
+ * Sends every request to Stripe and saves the request and response. A later
+ * recording of the same request replaces the earlier one.
+ */
+export class RecordingHttpClient implements Stripe.HttpClient {
+  constructor(
+    private readonly inner: Stripe.HttpClient,
+    private readonly store: FixtureStore,
+    private readonly logger: Logger
+  ) {}
+
+  getClientName(): string {
+    return this.inner.getClientName();
+  }
+
+  async makeRequest(
+    host: string,
+    port: string | number,
+    path: string,
+    method: HttpMethod,
+    headers: object,
+    requestData: string | null,
+    protocol: Stripe.HttpProtocol,
+    timeout: number
+  ): Promise<Stripe.HttpClientResponse> {
+    const response = await this.inner.makeRequest(
+      host,
+      port,
+      path,
+      method,
+      headers,
+      requestData,
+      protocol,
+      timeout
+    );
+    const body = await response.toJSON();
+    const responseHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.getHeaders())) {
+      if (keptResponseHeaders.includes(name.toLowerCase())) {
+        responseHeaders[name.toLowerCase()] = String(value);
+      }
+    }
+    const request = this.store.describe(method, path, headers as Record<string, unknown>, requestData);
+    const file = this.store.write({
+      request,
+      response: { status: response.getStatusCode(), headers: responseHeaders, body },
+      recorded_at: new Date().toISOString(),
+    });
+    this.logger.debug('Fixture recorded', {
+      method,
+      path: request.path,
+      account: request.account,
+      status: response.getStatusCode(),
+      file,
+    });
+    return new FixtureResponse(response.getStatusCode(), responseHeaders, body);
+  }
+}
+
+/**
+ * Serves recorded responses and never opens a connection. A request without
+ * a fixture gets a Stripe-style invalid_request_error, so the tool that made
+ * it fails with a message naming the missing fixture.
+ */
+export class ReplayHttpClient implements Stripe.HttpClient {
+  constructor(
+    private readonly store: FixtureStore,
+    private readonly logger: Logger
+  ) {}
+
+  getClientName(): string {
+    return 'fixture-replay';
+  }
+
+  makeRequest(
+    _host: string,
+    _port: string | number,
+    path: string,
+    method: HttpMethod,
+    headers: object,
+    requestData: string | null
+  ): Promise<Stripe.HttpClientResponse> {
+    const request = this.store.describe(method, path, headers as Record<string, unknown>, requestData);
+    const fixture = this.store.read(request);
+    if (fixture) {
+      this.logger.debug('Fixture replayed', {
+        method,
+        path: request.path,
+        account: request.account,
+        status: fixture.response.status,
+      });
+      return Promise.resolve(
+        new FixtureResponse(fixture.response.status, fixture.response.headers, fixture.response.body)
+      );
+    }
+
+    const file = this.store.fileFor(request);
+    this.logger.warn('No fixture for replayed request', {
+      method,
+      path: request.path,
+      account: request.account,
+      params: request.params,
+      file,
+    });
+    return Promise.resolve(
+      new FixtureResponse(
+        404,
+        {},
+        {
+          error: {
+            type: 'invalid_request_error',
+            code: 'fixture_not_found',
+            message: `No fixture recorded for ${method} ${request.path}${
+              request.account ? ` on ${request.account}` : ''
+            }${request.params ? ` with ${decodeURIComponent(request.params)}` : ''} (expected ${file}). Record it with fixtures.mode "record".`,
+          },
+        }
+      )
+    );
+  }
+}
+
+/**
+ * Transport for the request executor: the recording client in front of the
+ * Node HTTP client, or the replay client alone.
+ */
+export function fixtureTransport(store: FixtureStore, logger: Logger): Stripe.HttpClient {
+  return store.mode === 'replay'
+    ? new ReplayHttpClient(store, logger)
+    : new RecordingHttpClient(Stripe.createNodeHttpClient(), store, logger);
+}
@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type Stripe from 'stripe';
+
+import { assessRefund, compileRefundGuardrails } from './guardrails.js';
+import type { RefundAssessmentInput } from './guardrails.js';
+
+const now = 1_700_000_000;
+
+// Only the fields assessRefund reads.
+function charge(fields: Partial<Stripe.Charge> = {}): Stripe.Charge {
+  return {
+    id: 'ch_test',
+    currency: 'usd',
+    amount: 10000,
+    amount_captured: 10000,
+    amount_refunded: 0,
+    captured: true,
+    ...fields,
+  } as Stripe.Charge;
+}
+
+function refund(id: string, amount: number, status: string, created = now - 3600): Stripe.Refund {
+  return { id, amount, status, created } as Stripe.Refund;
+}
+
+function input(fields: Partial<RefundAssessmentInput> = {}): RefundAssessmentInput {
+  return {
+    charge: charge(),
+    existingRefunds: [],
+    requestedAmount: null,
+    reason: null,
+    dailyRefunded: null,
+    now,
+    ...fields,
+  };
+}
+
+const codes = (assessment: { violations: { code: string }[] }) =>
+  assessment.violations.map((violation) => violation.code);
+
+describe('assessRefund', () => {
+  const open = compileRefundGuardrails(undefined);
+
+  it('allows a full refund of an untouched charge', () => {
+    const assessment = assessRefund(open, input());
+
+    assert.equal(assessment.allowed, true);
+    assert.equal(assessment.amount, 10000);
+    assert.equal(assessment.remaining_refundable, 10000);
+  });
+
+  it('counts pending refunds against the refundable balance', () => {
+    const assessment = assessRefund(
+      open,
+      input({ existingRefunds: [refund('re_pending', 4000, 'pending')], requestedAmount: 7000 })
+    );
+
+    assert.equal(assessment.remaining_refundable, 6000);
+    assert.deepEqual(codes(assessment), ['over_refund']);
+    assert.deepEqual(
+      assessment.pending_refunds.map((pending) => pending.id),
+      ['re_pending']
+    );
+  });
+
+  it('ignores failed and canceled refunds', () => {
+    const assessment = assessRefund(
+      open,
+      input({
+        existingRefunds: [
+          refund('re_failed', 10000, 'failed'),
+          refund('re_canceled', 10000, 'canceled'),
+        ],
+      })
+    );
+
+    assert.equal(assessment.allowed, true);
+    assert.equal(assessment.remaining_refundable, 10000);
+  });
+
+  it('rejects uncaptured and fully refunded charges', () => {
+    assert.deepEqual(
+      codes(assessRefund(open, input({ charge: charge({ captured: false, amount_captured: 0 }) }))),
+      ['not_refundable']
+    );
+    assert.deepEqual(
+      codes(assessRefund(open, input({ charge: charge({ amount_refunded: 10000 }) }))),
+      ['not_refundable']
+    );
+  });
+
+  it('flags a same-amount refund inside the duplicate window only', () => {
+    const guardrails = compileRefundGuardrails({ duplicate_window_seconds: 600 });
+    const recent = refund('re_recent', 2000, 'succeeded', now - 60);
+    const old = refund('re_old', 2000, 'succeeded', now - 3600);
+
+    assert.deepEqual(
+      codes(assessRefund(guardrails, input({ existingRefunds: [recent], requestedAmount: 2000 }))),
+      ['duplicate_refund']
+    );
+    assert.deepEqual(
+      codes(assessRefund(guardrails, input({ existingRefunds: [old], requestedAmount: 2000 }))),
+      []
+    );
+  });
+
+  it('applies per-refund and rolling daily caps per currency', () => {
+    const guardrails = compileRefundGuardrails({
+      max_refund_amount: { USD: 5000 },
+      max_daily_refund_amount: { usd: 20000 },
+    });
+
+    assert.deepEqual(
+      codes(assessRefund(guardrails, input({ requestedAmount: 6000, dailyRefunded: 0 }))),
+      ['per_refund_cap']
+    );
+    assert.deepEqual(
+      codes(assessRefund(guardrails, input({ requestedAmount: 5000, dailyRefunded: 16000 }))),
+      ['daily_cap']
+    );
+    assert.deepEqual(
+      codes(
+        assessRefund(
+          guardrails,
+          input({
+            charge: charge({ currency: 'eur' }),
+            requestedAmount: 9000,
+            dailyRefunded: 50000,
+          })
+        )
+      ),
+      []
+    );
+  });
+
+  it('requires a reason above the configured amount', () => {
+    const guardrails = compileRefundGuardrails({ reason_required_above: { usd: 1000 } });
+
+    assert.deepEqual(codes(assessRefund(guardrails, input({ requestedAmount: 1500 }))), [
+      'reason_required',
+    ]);
+    assert.equal(
+      assessRefund(guardrails, input({ requestedAmount: 1500, reason: 'fraudulent' })).allowed,
+      true
+    );
+  });
+});
+
+describe('compileRefundGuardrails', () => {
+  it('rejects keys that are not currency codes', () => {
+    assert.throws(
+      () => compileRefundGuardrails({ max_refund_amount: { dollars: 100 } }),
+      /Invalid refund_guardrails: max_refund_amount\.dollars/
+    );
+  });
+});
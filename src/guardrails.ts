@@ -0,0 +1,203 @@
+import type Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+
+const currencyAmountsSchema = z
+  .record(z.number().int().nonnegative())
+  .default({});
+
+export const refundGuardrailsSchema = z
+  .object({
+    max_refund_amount: currencyAmountsSchema.describe(
+      'Per-refund cap by lowercase currency code in the smallest currency unit, e.g. { "usd": 50000 }.'
+    ),
+    max_daily_refund_amount: currencyAmountsSchema.describe(
+      'Rolling 24-hour refund cap by lowercase currency code, counted across the whole Stripe account.'
+    ),
+    reason_required_above: currencyAmountsSchema.describe(
+      'Refunds above this amount (by lowercase currency code) must include a reason.'
+    ),
+    duplicate_window_seconds: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(600)
+      .describe(
+        'A refund with the same amount on the same charge within this window is treated as a duplicate (default: 600).'
+      ),
+  })
+  .strict();
+
+export type RefundGuardrailsConfig = z.input<typeof refundGuardrailsSchema>;
+
+export interface RefundGuardrails {
+  maxRefundAmount: Map<string, number>;
+  maxDailyRefundAmount: Map<string, number>;
+  reasonRequiredAbove: Map<string, number>;
+  duplicateWindowSeconds: number;
+}
+
+export interface RefundAssessmentInput {
+  charge: Stripe.Charge;
+  existingRefunds: Stripe.Refund[];
+  requestedAmount: number | null;
+  reason: string | null;
+  dailyRefunded: number | null;
+  now: number;
+}
+
+export interface RefundViolation {
+  code:
+    | 'not_refundable'
+    | 'over_refund'
+    | 'duplicate_refund'
+    | 'per_refund_cap'
+    | 'daily_cap'
+    | 'reason_required';
+  message: string;
+}
+
+export interface RefundAssessment {
+  allowed: boolean;
+  amount: number;
+  currency: string;
+  remaining_refundable: number;
+  pending_refunds: { id: string; amount: number; status: string | null; created: number }[];
+  daily_refunded: number | null;
+  violations: RefundViolation[];
+}
+
+const committedRefundStatuses = new Set(['succeeded', 'pending', 'requires_action']);
+const pendingRefundStatuses = new Set(['pending', 'requires_action']);
+
+export function compileRefundGuardrails(
+  config: RefundGuardrailsConfig | undefined
+): RefundGuardrails {
+  const parsed = parseConfigSection('refund_guardrails', refundGuardrailsSchema, config ?? {});
+
+  const problems: string[] = [];
+  const toMap = (field: string, amounts: Record<string, number>): Map<string, number> => {
+    const map = new Map<string, number>();
+    for (const [currency, amount] of Object.entries(amounts)) {
+      if (!/^[a-z]{3}$/i.test(currency)) {
+        problems.push(`${field}.${currency}: expected a three-letter currency code`);
+        continue;
+      }
+      map.set(currency.toLowerCase(), amount);
+    }
+    return map;
+  };
+
+  const guardrails: RefundGuardrails = {
+    maxRefundAmount: toMap('max_refund_amount', parsed.max_refund_amount),
+    maxDailyRefundAmount: toMap('max_daily_refund_amount', parsed.max_daily_refund_amount),
+    reasonRequiredAbove: toMap('reason_required_above', parsed.reason_required_above),
+    duplicateWindowSeconds: parsed.duplicate_window_seconds,
+  };
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid refund_guardrails: ${problems.join('; ')}`);
+  }
+  return guardrails;
+}
+
+export function hasDailyRefundCap(guardrails: RefundGuardrails, currency: string): boolean {
+  return guardrails.maxDailyRefundAmount.has(currency.toLowerCase());
+}
+
+export function assessRefund(
+  guardrails: RefundGuardrails,
+  input: RefundAssessmentInput
+): RefundAssessment {
+  const { charge, existingRefunds, reason, dailyRefunded, now } = input;
+  const currency = charge.currency.toLowerCase();
+  const committed = existingRefunds
+    .filter((refund) => committedRefundStatuses.has(refund.status ?? ''))
+    .reduce((total, refund) => total + refund.amount, 0);
+  const remaining = Math.max(
+    charge.amount_captured - Math.max(charge.amount_refunded, committed),
+    0
+  );
+  const pending = existingRefunds.filter((refund) =>
+    pendingRefundStatuses.has(refund.status ?? '')
+  );
+  const amount = input.requestedAmount ?? remaining;
+  const violations: RefundViolation[] = [];
+
+  if (!charge.captured || charge.amount_captured === 0) {
+    violations.push({
+      code: 'not_refundable',
+      message: `Charge ${charge.id} has not been captured, so there is nothing to refund.`,
+    });
+  } else if (remaining === 0) {
+    violations.push({
+      code: 'not_refundable',
+      message: `Charge ${charge.id} is already fully refunded (${charge.amount_refunded} ${currency}${
+        pending.length > 0 ? `, ${pending.length} refund(s) still pending` : ''
+      }).`,
+    });
+  } else if (amount > remaining) {
+    violations.push({
+      code: 'over_refund',
+      message: `Requested ${amount} ${currency} exceeds the remaining refundable amount of ${remaining} ${currency}.`,
+    });
+  }
+
+  const duplicate = existingRefunds.find(
+    (refund) =>
+      refund.amount === amount &&
+      committedRefundStatuses.has(refund.status ?? '') &&
+      (pendingRefundStatuses.has(refund.status ?? '') ||
+        now - refund.created <= guardrails.duplicateWindowSeconds)
+  );
+  if (duplicate) {
+    violations.push({
+      code: 'duplicate_refund',
+      message: `Refund ${duplicate.id} for ${duplicate.amount} ${currency} (status: ${
+        duplicate.status ?? 'unknown'
+      }) already exists on ${charge.id}. This looks like a duplicate.`,
+    });
+  }
+
+  const perRefundCap = guardrails.maxRefundAmount.get(currency);
+  if (perRefundCap !== undefined && amount > perRefundCap) {
+    violations.push({
+      code: 'per_refund_cap',
+      message: `Requested ${amount} ${currency} exceeds the per-refund cap of ${perRefundCap} ${currency}.`,
+    });
+  }
+
+  const dailyCap = guardrails.maxDailyRefundAmount.get(currency);
+  if (dailyCap !== undefined && dailyRefunded !== null && dailyRefunded + amount > dailyCap) {
+    violations.push({
+      code: 'daily_cap',
+      message: `Refunding ${amount} ${currency} would bring the rolling 24-hour total to ${
+        dailyRefunded + amount
+      } ${currency}, above the cap of ${dailyCap} ${currency}.`,
+    });
+  }
+
+  const reasonThreshold = guardrails.reasonRequiredAbove.get(currency);
+  if (reasonThreshold !== undefined && amount > reasonThreshold && !reason) {
+    violations.push({
+      code: 'reason_required',
+      message: `Refunds above ${reasonThreshold} ${currency} require a reason.`,
+    });
+  }
+
+  return {
+    allowed: violations.length === 0,
+    amount,
+    currency,
+    remaining_refundable: remaining,
+    pending_refunds: pending.map((refund) => ({
+      id: refund.id,
+      amount: refund.amount,
+      status: refund.status ?? null,
+      created: refund.created,
+    })),
+    daily_refunded: dailyRefunded,
+    violations,
+  };
+}
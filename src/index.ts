@@ -1,27 +1,227 @@
 import Stripe from 'stripe';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { Logger } from './logger.js';
-import type { LogLevel } from './logger.js';
+import type { ZodRawShape, ZodTypeAny } from 'zod';
+import {
+  compileRawRequestPolicy,
+  describeRawRequestPolicy,
+  evaluateRawRequestPolicy,
+  rawRequestPolicySchema,
+} from './allowlist.js';
+import type { RawRequestPolicy } from './allowlist.js';
+import {
+  auditOutcomes,
+  auditLogConfigSchema,
+  compileAuditLogConfig,
+  openAuditLog,
+  sanitizeAuditInputs,
+} from './audit.js';
+import type { AuditLog, AuditRecord } from './audit.js';
+import {
+  compileStripeCacheConfig,
+  StripeFetcher,
+  StripeObjectCache,
+  stripeCacheConfigSchema,
+} from './cache.js';
+import { ConfirmationStore, fingerprintParams } from './confirmation.js';
+import {
+  compileFixtureConfig,
+  fixtureConfigSchema,
+  FixtureStore,
+  fixtureTransport,
+} from './fixtures.js';
+import {
+  compileRequestExecutionConfig,
+  emptyStripeRequestStats,
+  newIdempotencyKey,
+  requestExecutionConfigSchema,
+  StripeRequestExecutor,
+  trackStripeRequests,
+} from './execution.js';
+import {
+  assessRefund,
+  compileRefundGuardrails,
+  hasDailyRefundCap,
+  refundGuardrailsSchema,
+} from './guardrails.js';
+import type { RefundAssessment, RefundGuardrails } from './guardrails.js';
+import {
+  fromMcpLogLevel,
+  Logger,
+  logLevels,
+  McpNotificationSink,
+  openFileSink,
+  StderrSink,
+} from './logger.js';
+import type { LogSink } from './logger.js';
+import {
+  compileRecommendationPolicy,
+  evaluateRecommendationPolicy,
+  fraudActionSchema,
+  recommendationPolicySchema,
+} from './policy.js';
+import type { FraudAction, PolicyEvaluationInput, RecommendationPolicy } from './policy.js';
+import { compileStripeProfiles, stripeProfilesSchema } from './profiles.js';
+import type {
+  StripeMode,
+  StripeProfile,
+  StripeProfileDescription,
+  StripeProfiles,
+} from './profiles.js';
+import { registerStripePrompts } from './prompts.js';
+import { compileRedactionConfig, redactionConfigSchema, Redactor } from './redaction.js';
+import {
+  analyzeVelocity,
+  compileVelocityConfig,
+  describeVelocityFlags,
+  longestWindowSeconds,
+  velocityConfigSchema,
+  velocityEntityTypes,
+} from './velocity.js';
+import type { VelocityConfig, VelocityEntity, VelocityEvent } from './velocity.js';
+import {
+  acquireWebhookReceiver,
+  compileWebhookConfig,
+  matchesEventType,
+  webhookConfigSchema,
+} from './webhooks.js';
+import type { StoredWebhookEvent, WebhookReceiver } from './webhooks.js';
 
 export const configSchema = z.object({
-  stripe_api_key: z.string().min(1).describe('Stripe secret API key (sk_live_... or sk_test_...).'),
+  stripe_api_key: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Stripe secret API key (sk_live_... or sk_test_...), registered as the "default" profile. Optional when profiles are configured.'
+    ),
   stripe_api_version: z
     .string()
     .optional()
     .describe(
-      'Optional Stripe API version override (e.g., 2024-06-20). Leave undefined to use your account default.'
+      'Optional Stripe API version override (e.g., 2024-06-20) for stripe_api_key. Leave undefined to use your account default.'
     ),
   default_stripe_account: z
     .string()
     .optional()
     .describe(
-      'Optional default connected account ID. Used when stripe_raw_request omits stripe_account.'
+      'Optional default connected account ID for stripe_api_key. Used when stripe_raw_request omits stripe_account.'
+    ),
+  allow_live_writes: z
+    .boolean()
+    .default(false)
+    .describe(
+      'When true, tools may change Stripe state when stripe_api_key is a live-mode key, provided each call repeats the account ID in confirm_live_account (default: false).'
+    ),
+  profiles: stripeProfilesSchema
+    .optional()
+    .describe(
+      'Optional named Stripe profiles, each with its own API key, API version, default connected account, and read_only flag. Tools select one with their profile argument.'
+    ),
+  default_profile: z
+    .string()
+    .optional()
+    .describe(
+      'Profile used when a tool call omits profile. Defaults to "default" when stripe_api_key is set, or to the only configured profile.'
     ),
   log_level: z
-    .enum(['debug', 'info', 'warn', 'error'])
+    .enum(logLevels)
     .default('info')
-    .describe('Minimum log level emitted by the server (default: info).'),
+    .describe('Minimum log level emitted by the server (default: info). Clients can change it at runtime with logging/setLevel.'),
+  log_sinks: z
+    .array(z.enum(['stderr', 'file', 'mcp']))
+    .min(1)
+    .default(['stderr'])
+    .describe(
+      'Where log records are written: stderr, a rotating file (see log_file), and/or MCP notifications/message to the connected client (default: stderr). Logs never go to stdout, which carries the stdio transport.'
+    ),
+  log_file: z
+    .object({
+      path: z
+        .string()
+        .trim()
+        .min(1)
+        .default('stripe-mcp.log')
+        .describe('Log file path (default: stripe-mcp.log in the working directory).'),
+      max_bytes: z
+        .number()
+        .int()
+        .positive()
+        .default(10 * 1024 * 1024)
+        .describe('Size at which the file is rotated (default: 10 MiB).'),
+      max_files: z
+        .number()
+        .int()
+        .positive()
+        .max(100)
+        .default(5)
+        .describe('Number of rotated files kept next to the active one (default: 5).'),
+    })
+    .strict()
+    .default({})
+    .describe('Settings for the file log sink.'),
+  confirmation_ttl_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(3600)
+    .default(300)
+    .describe(
+      'Lifetime of confirmation tokens issued by mutating tools before the plan must be previewed again (default: 300).'
+    ),
+  refund_guardrails: refundGuardrailsSchema
+    .optional()
+    .describe(
+      'Optional per-refund and rolling daily caps by currency, plus the amount above which a refund reason is required.'
+    ),
+  raw_request_policy: rawRequestPolicySchema
+    .optional()
+    .describe(
+      'Optional allow/deny rules by HTTP method and path template for stripe_raw_request, plus a global read-only mode. Defaults to allowing every request.'
+    ),
+  velocity: velocityConfigSchema
+    .optional()
+    .describe(
+      'Optional sliding windows and thresholds for velocity analysis (attempts, declines, and distinct cards per customer, email, IP, and card fingerprint). Defaults to 1h and 24h windows.'
+    ),
+  redaction: redactionConfigSchema
+    .optional()
+    .describe(
+      'Optional masking of API keys, webhook secrets, card numbers, emails, and IP addresses in logs, the audit log, and tool output. Each category is full, partial, or off.'
+    ),
+  audit_log: auditLogConfigSchema
+    .optional()
+    .describe(
+      'Optional location of the hash-chained JSONL audit trail of mutating tool calls. Enabled by default, writing stripe-mcp-audit.jsonl in the working directory.'
+    ),
+  request_execution: requestExecutionConfigSchema
+    .optional()
+    .describe(
+      'Optional retry, backoff, and client-side rate limit settings applied to every Stripe request, plus an alternative API base URL. Defaults to 3 retries and 20 requests per second per account.'
+    ),
+  fixtures: fixtureConfigSchema
+    .optional()
+    .describe(
+      'Optional record/replay mode. record saves every Stripe request and response to a fixture directory; replay serves those fixtures without network access, so the tools run without a Stripe account.'
+    ),
+  cache: stripeCacheConfigSchema
+    .optional()
+    .describe(
+      'Optional cache of fetched charges, PaymentIntents, reviews, and their disputes, refunds, and early fraud warnings, shared by all tools for ttl_seconds. Without it, objects are only reused within a single tool call.'
+    ),
+  webhooks: webhookConfigSchema
+    .optional()
+    .describe(
+      'Optional Stripe webhook receiver. When set, the server listens for signed events on its own port (127.0.0.1 by default), keeps the most recent ones for stripe_recent_events, and notifies MCP clients about new early fraud warnings and disputes.'
+    ),
+  recommendation_policy: recommendationPolicySchema
+    .optional()
+    .describe(
+      'Optional ordered rule list that maps Radar, early fraud warning, dispute, amount, and card country conditions to a recommendation. Defaults to the built-in thresholds.'
+    ),
 });
 
 type ServerConfig = z.infer<typeof configSchema>;
@@ -31,52 +231,163 @@ export default function createServer({
 }: {
   config: ServerConfig;
 }) {
-  const stripeApiVersion = config.stripe_api_version as
-    | Stripe.LatestApiVersion
-    | undefined;
-
-  const stripeConfig: Stripe.StripeConfig = {
-    appInfo: {
-      name: 'Stripe MCP Server',
-      version: '0.1.0',
-      url: 'https://smithery.ai/',
-    },
-  };
+  const requestExecutionConfig = compileRequestExecutionConfig(config.request_execution);
+  const fixtureConfig = compileFixtureConfig(config.fixtures);
+  const recommendationPolicy = compileRecommendationPolicy(
+    config.recommendation_policy
+  );
+  const rawRequestPolicy = compileRawRequestPolicy(config.raw_request_policy);
+  const refundGuardrails = compileRefundGuardrails(config.refund_guardrails);
+  const velocityConfig = compileVelocityConfig(config.velocity);
+  const webhookConfig = compileWebhookConfig(config.webhooks);
+  const auditLogConfig = compileAuditLogConfig(config.audit_log);
+  const cacheConfig = compileStripeCacheConfig(config.cache);
+  const redactor = new Redactor(compileRedactionConfig(config.redaction));
 
-  if (stripeApiVersion) {
-    stripeConfig.apiVersion = stripeApiVersion;
+  const logSinks: LogSink[] = [];
+  if (config.log_sinks.includes('stderr')) {
+    logSinks.push(new StderrSink());
   }
-
-  const stripe = new Stripe(config.stripe_api_key, stripeConfig);
-  const logger = new Logger(config.log_level, 'stripe-mcp');
+  if (config.log_sinks.includes('file')) {
+    logSinks.push(
+      openFileSink(config.log_file.path, config.log_file.max_bytes, config.log_file.max_files)
+    );
+  }
+  const logger = new Logger(config.log_level, 'stripe-mcp', logSinks, redactor);
+  const requestLogger = logger.child('stripe-requests');
+  const fixtureStore = fixtureConfig ? new FixtureStore(fixtureConfig) : null;
+  const fixtures = fixtureStore
+    ? { mode: fixtureStore.mode, directory: fixtureStore.directory }
+    : null;
+  const executor = new StripeRequestExecutor(
+    requestExecutionConfig,
+    requestLogger,
+    fixtureStore
+      ? {
+          transport: fixtureTransport(fixtureStore, requestLogger),
+          rateLimit: fixtureStore.mode === 'record',
+        }
+      : {}
+  );
+  const profiles = compileStripeProfiles(config, executor);
+  if (fixtureConfig?.mode === 'record' && !fixtureConfig.allow_live_recording) {
+    const live = profiles.list().filter((profile) => profile.keyMode === 'live');
+    if (live.length > 0) {
+      throw new Error(
+        `Invalid fixtures: record mode saves unmasked Stripe data and profile(s) ${live
+          .map((profile) => profile.name)
+          .join(', ')} use a live key. Record with test keys or set fixtures.allow_live_recording.`
+      );
+    }
+  }
+  const auditLog = openAuditLog(auditLogConfig, logger);
+  const webhook = webhookConfig ? acquireWebhookReceiver(webhookConfig, logger) : null;
+  const webhookReceiver = webhook?.receiver ?? null;
   logger.info('Initializing Stripe MCP server', {
-    api_version: stripeApiVersion ?? 'account_default',
-    default_stripe_account: config.default_stripe_account ?? null,
+    profiles: Object.fromEntries(
+      profiles.list().map((profile) => [
+        profile.name,
+        { key_mode: profile.keyMode, allow_live_writes: profile.allowLiveWrites },
+      ])
+    ),
+    default_profile: profiles.defaultName,
     log_level: config.log_level,
+    log_sinks: config.log_sinks,
+    recommendation_policy: config.recommendation_policy ? 'custom' : 'default',
+    recommendation_rules: recommendationPolicy.rules.length,
+    raw_request_policy: describeRawRequestPolicy(rawRequestPolicy),
+    audit_log: auditLog?.path ?? null,
+    request_execution: {
+      max_retries: requestExecutionConfig.max_retries,
+      rate_limit_per_second: requestExecutionConfig.rate_limit_per_second,
+      api_base: requestExecutionConfig.api_base ?? null,
+    },
+    cache: cacheConfig,
+    fixtures,
+    webhooks: webhookConfig
+      ? { host: webhookConfig.host, port: webhookConfig.port, path: webhookConfig.path }
+      : null,
   });
 
-  const server = new McpServer({
-    name: 'stripe-fraud-mcp',
-    version: '0.1.0',
+  const server = new McpServer(
+    {
+      name: 'stripe-fraud-mcp',
+      version: '0.1.0',
+    },
+    { capabilities: { logging: {} } }
+  );
+
+  if (config.log_sinks.includes('mcp')) {
+    logger.addSink(
+      new McpNotificationSink((message) =>
+        server.isConnected() ? server.sendLoggingMessage(message) : undefined
+      )
+    );
+  }
+  // One level for every sink: the SDK's default handler would only filter
+  // MCP notifications, per session.
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    const previous = logger.level;
+    logger.setLevel(fromMcpLogLevel(request.params.level));
+    logger.info('Log level changed by client', {
+      requested: request.params.level,
+      previous,
+      current: logger.level,
+    });
+    return {};
   });
 
   registerStripeTools({
     server,
-    stripe,
+    profiles,
     logger,
+    recommendationPolicy,
+    rawRequestPolicy,
+    refundGuardrails,
+    velocityConfig,
+    webhookReceiver,
+    auditLog,
+    redactor,
+    confirmations: new ConfirmationStore(config.confirmation_ttl_seconds),
+    objectCache: cacheConfig ? new StripeObjectCache(cacheConfig) : null,
     metadata: {
-      stripeApiVersion: stripeApiVersion ?? null,
-      defaultStripeAccount: config.default_stripe_account ?? null,
-      logLevel: config.log_level,
+      logSinks: config.log_sinks,
+      fixtures,
     },
-    ...(config.default_stripe_account
-      ? { defaultStripeAccount: config.default_stripe_account }
-      : {}),
   });
 
+  registerStripeResources({ server, profiles, logger, redactor });
+  registerStripePrompts({ server, logger });
+  if (webhook) {
+    forwardWebhookNotifications({ server, receiver: webhook.receiver, logger });
+    // A configured receiver that cannot start ends the session: the client
+    // would otherwise wait for events that are never delivered.
+    webhook.ready.catch((error: unknown) => {
+      logger.error('Closing session: webhook receiver failed to start', {
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      void server.close();
+    });
+  }
+
   return server.server;
 }
 
+const profileArgument = z
+  .string()
+  .trim()
+  .min(1)
+  .optional()
+  .describe('Configured Stripe profile to run against (see stripe_status). Defaults to the default profile.');
+
+const liveAccountConfirmation = z
+  .string()
+  .trim()
+  .optional()
+  .describe(
+    'Live mode only: the ID of the account this write runs on (the platform account shown by stripe_status, or the connected account in stripe_account). Required when the profile allows live writes.'
+  );
+
 const fraudInsightShape = {
   payment_intent_id: z
     .string()
@@ -94,6 +405,18 @@ const fraudInsightShape = {
     .describe(
       'When true, include disputes, refunds, and related events for additional context.'
     ),
+  include_velocity: z
+    .boolean()
+    .optional()
+    .describe(
+      'When true, add velocity signals (attempts, declines, distinct cards) for the charge\'s customer, email, IP, and card fingerprint, and factor them into the recommendation (default: false).'
+    ),
+  stripe_account: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Optional connected account ID (acct_...) the payment belongs to. Defaults to the platform account.'),
+  profile: profileArgument,
 };
 const fraudInsightSchema = z.object(fraudInsightShape);
 type FraudInsightInput = z.infer<typeof fraudInsightSchema>;
@@ -125,10 +448,100 @@ const refundShape = {
     .record(z.string())
     .optional()
     .describe('Optional metadata to attach to the refund.'),
+  confirmation_token: z
+    .string()
+    .trim()
+    .optional()
+    .describe(
+      'Token returned by a previous call with identical parameters. Omit it to receive a refund plan; supply it to execute that plan.'
+    ),
+  stripe_account: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Optional connected account ID (acct_...) that owns the charge. Defaults to the platform account.'),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
 };
 const refundSchema = z.object(refundShape);
 type RefundInput = z.infer<typeof refundSchema>;
 
+const bulkRefundShape = {
+  targets: z
+    .array(z.string().trim().min(1))
+    .min(1)
+    .max(500)
+    .optional()
+    .describe('Charge (ch_...) or PaymentIntent (pi_...) IDs to refund in full.'),
+  query: z
+    .object({
+      created_gte: z
+        .number()
+        .int()
+        .nonnegative()
+        .describe('Start of the window as a Unix timestamp (seconds).'),
+      created_lte: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe('Optional end of the window as a Unix timestamp (seconds). Defaults to now.'),
+      customer: z
+        .string()
+        .trim()
+        .optional()
+        .describe('Optional customer ID (cus_...) to restrict charges to.'),
+      risk_levels: z
+        .array(z.enum(['normal', 'elevated', 'highest', 'not_assessed', 'unknown']))
+        .optional()
+        .describe('Only include charges whose Radar risk level is one of these values.'),
+      max_items: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .default(100)
+        .describe('Maximum number of charges to select (default: 100).'),
+    })
+    .optional()
+    .describe('Select charges by query instead of listing targets explicitly.'),
+  reason: z
+    .enum(['duplicate', 'fraudulent', 'requested_by_customer'])
+    .optional()
+    .describe('Refund reason applied to every item.'),
+  metadata: z
+    .record(z.string())
+    .optional()
+    .describe('Metadata applied to every refund.'),
+  batch_id: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(
+      'Optional batch label mixed into every idempotency key. Re-running with the same label, targets, reason, and metadata reuses the same keys.'
+    ),
+  concurrency: z
+    .number()
+    .int()
+    .positive()
+    .max(10)
+    .default(4)
+    .describe('Number of refunds processed in parallel (default: 4).'),
+  confirmation_token: z
+    .string()
+    .trim()
+    .optional()
+    .describe(
+      'Token returned by a previous call with identical parameters. Omit it to receive a dry-run plan; supply it to execute the batch.'
+    ),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
+};
+const bulkRefundSchema = z.object(bulkRefundShape);
+type BulkRefundInput = z.infer<typeof bulkRefundSchema>;
+
 const rawRequestShape = {
   method: z
     .enum(['GET', 'POST', 'DELETE'])
@@ -161,6 +574,28 @@ const rawRequestShape = {
     .string()
     .optional()
     .describe('Optional Stripe API version override.'),
+  auto_paginate: z
+    .boolean()
+    .default(false)
+    .describe(
+      'GET only. Follows has_more/starting_after on list endpoints (ending_before when the path starts from one) and next_page on /search endpoints, merging the data arrays.'
+    ),
+  max_items: z
+    .number()
+    .int()
+    .positive()
+    .max(10000)
+    .default(1000)
+    .describe('Maximum number of items to collect when auto_paginate is true (default: 1000).'),
+  confirmation_token: z
+    .string()
+    .trim()
+    .optional()
+    .describe(
+      'Required to execute POST and DELETE requests. Omit it to receive a request plan; supply the returned token with identical parameters to execute it.'
+    ),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
 };
 const rawRequestSchema = z.object(rawRequestShape);
 type RawRequestInput = z.infer<typeof rawRequestSchema>;
@@ -169,95 +604,710 @@ const statusShape = {
   stripe_account: z
     .string()
     .optional()
-    .describe('Optional connected account ID override for the status probe.'),
+    .describe('Optional connected account ID override for the probe of the selected profile.'),
+  profile: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe('Only probe this profile. By default every configured profile is probed.'),
 };
 const statusSchema = z.object(statusShape);
 type StatusInput = z.infer<typeof statusSchema>;
 
-function registerStripeTools({
-  server,
-  stripe,
-  defaultStripeAccount,
-  logger,
-  metadata,
-}: {
-  server: McpServer;
-  stripe: Stripe;
-  defaultStripeAccount?: string;
-  logger: Logger;
-  metadata: {
-    stripeApiVersion: string | null;
-    defaultStripeAccount: string | null;
-    logLevel: LogLevel;
-  };
-}) {
-  const toolsLogger = logger.child('tools');
-  toolsLogger.info('Registering Stripe tools');
-  const statusLogger = toolsLogger.child('stripe_status');
-  const fraudLogger = toolsLogger.child('stripe_fraud_insight');
-  const refundLogger = toolsLogger.child('stripe_create_refund');
-  const rawRequestLogger = toolsLogger.child('stripe_raw_request');
-  server.registerTool(
-    'stripe_status',
-    {
-      title: 'Stripe MCP Status',
-      description:
-        'Returns server health information and validates Stripe API connectivity.',
-      inputSchema: statusShape,
-    },
-    async (input: StatusInput) => {
-      const stripeAccountOverride = input.stripe_account ?? null;
-      const requestAccount = stripeAccountOverride ?? defaultStripeAccount ?? null;
-      statusLogger.info('Invocation received', {
-        stripe_account_override: stripeAccountOverride,
-        effective_stripe_account: requestAccount,
-      });
+const triageQueueShape = {
+  created_gte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      'Optional start of the window as a Unix timestamp (seconds). Defaults to now minus lookback_hours.'
+    ),
+  created_lte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Optional end of the window as a Unix timestamp (seconds). Defaults to now.'),
+  lookback_hours: z
+    .number()
+    .positive()
+    .max(24 * 90)
+    .default(24)
+    .describe('Window size in hours used when created_gte is omitted (default: 24).'),
+  risk_levels: z
+    .array(z.enum(['normal', 'elevated', 'highest', 'not_assessed', 'unknown']))
+    .optional()
+    .describe('Only include charges whose Radar risk level is one of these values.'),
+  open_reviews_only: z
+    .boolean()
+    .default(false)
+    .describe(
+      'When true, only include charges with an open Radar review. Candidates then come from the open reviews list.'
+    ),
+  actionable_efw_only: z
+    .boolean()
+    .default(false)
+    .describe(
+      'When true, only include charges with an actionable early fraud warning. Candidates then come from the early fraud warnings list.'
+    ),
+  include_events: z
+    .boolean()
+    .default(true)
+    .describe('Forwarded to the fraud insight pipeline for each charge (disputes and refunds).'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .default(25)
+    .describe('Maximum number of charges to analyse and return in the queue (default: 25).'),
+  max_scanned: z
+    .number()
+    .int()
+    .positive()
+    .max(2000)
+    .default(500)
+    .describe(
+      'Maximum number of charges, or early fraud warnings or reviews with those filters, to scan before stopping (default: 500).'
+    ),
+  concurrency: z
+    .number()
+    .int()
+    .positive()
+    .max(10)
+    .default(4)
+    .describe('Number of charges analysed in parallel (default: 4).'),
+  profile: profileArgument,
+};
+const triageQueueSchema = z.object(triageQueueShape);
+type TriageQueueInput = z.infer<typeof triageQueueSchema>;
 
-      try {
-        const options = requestAccount ? { stripeAccount: requestAccount } : undefined;
-        const account = await stripe.accounts.retrieve(undefined, options);
-        statusLogger.info('Status probe succeeded', {
-          account_id: account.id,
-          charges_enabled: account.charges_enabled,
-          payouts_enabled: account.payouts_enabled,
-        });
+const connectFraudSweepShape = {
+  account_ids: z
+    .array(z.string().trim().regex(/^acct_\w+$/, 'Expected a connected account ID (acct_...).'))
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(
+      'Connected account IDs to sweep. Defaults to the platform\'s connected accounts, newest first, up to max_accounts.'
+    ),
+  max_accounts: z
+    .number()
+    .int()
+    .positive()
+    .max(1000)
+    .default(100)
+    .describe('Maximum number of connected accounts listed and swept when account_ids is omitted (default: 100).'),
+  created_gte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      'Optional start of the window as a Unix timestamp (seconds). Defaults to now minus lookback_hours.'
+    ),
+  created_lte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Optional end of the window as a Unix timestamp (seconds). Defaults to now.'),
+  lookback_hours: z
+    .number()
+    .positive()
+    .max(24 * 90)
+    .default(24)
+    .describe('Window size in hours used when created_gte is omitted (default: 24).'),
+  risk_levels: z
+    .array(z.enum(['elevated', 'highest']))
+    .min(1)
+    .default(['highest'])
+    .describe('Radar risk levels that count a charge in the window as high risk (default: highest).'),
+  max_scanned: z
+    .number()
+    .int()
+    .positive()
+    .max(2000)
+    .default(200)
+    .describe(
+      'Maximum number of disputes, early fraud warnings and charges scanned per connected account, each (default: 200).'
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .default(25)
+    .describe('Maximum number of ranked accounts returned (default: 25).'),
+  concurrency: z
+    .number()
+    .int()
+    .positive()
+    .max(10)
+    .default(4)
+    .describe('Number of connected accounts swept in parallel (default: 4).'),
+  profile: profileArgument,
+};
+const connectFraudSweepSchema = z.object(connectFraudSweepShape);
+type ConnectFraudSweepInput = z.infer<typeof connectFraudSweepSchema>;
 
-        const summaryLines: string[] = [
-          `Server time: ${new Date().toISOString()}`,
-          `Stripe API version: ${metadata.stripeApiVersion ?? 'account_default'}`,
-          `Log level: ${metadata.logLevel}`,
-          `Account checked: ${account.id}`,
-          `Charges enabled: ${account.charges_enabled ? 'yes' : 'no'}`,
-          `Payouts enabled: ${account.payouts_enabled ? 'yes' : 'no'}`,
-        ];
+const customerRiskProfileShape = {
+  customer_id: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Stripe Customer ID (cus_...) to profile.'),
+  email: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Customer email address. Every customer with this email is included in the profile.'),
+  created_gte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Optional Unix timestamp (seconds); only charges created at or after it are included.'),
+  max_charges: z
+    .number()
+    .int()
+    .positive()
+    .max(1000)
+    .default(200)
+    .describe('Maximum number of charges to aggregate across all matched customers (default: 200).'),
+  profile: profileArgument,
+};
+const customerRiskProfileSchema = z.object(customerRiskProfileShape);
+type CustomerRiskProfileInput = z.infer<typeof customerRiskProfileSchema>;
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: summaryLines.join('\n'),
-            },
-          ],
-          structuredContent: {
-            status: 'ok',
-            server_time: new Date().toISOString(),
-            stripe_api_version: metadata.stripeApiVersion,
-            log_level: metadata.logLevel,
-            default_stripe_account: metadata.defaultStripeAccount,
-            stripe_account_used: requestAccount,
-            account: {
-              id: account.id,
-              type: account.type,
-              charges_enabled: account.charges_enabled,
-              payouts_enabled: account.payouts_enabled,
-              details_submitted: account.details_submitted,
-              email: account.email ?? null,
-            },
-          },
-        };
-      } catch (error) {
-        statusLogger.error('Status probe failed', {
-          stripe_account: stripeAccountOverride,
+const velocityShape = {
+  created_lte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('End of the analysis period as a Unix timestamp (seconds). Defaults to now.'),
+  lookback_hours: z
+    .number()
+    .positive()
+    .max(24 * 30)
+    .optional()
+    .describe('Length of the analysis period in hours. Defaults to the longest configured window.'),
+  entity_types: z
+    .array(z.enum(velocityEntityTypes))
+    .min(1)
+    .default([...velocityEntityTypes])
+    .describe('Entities to group by (default: customer, email, ip_address, card_fingerprint).'),
+  charge_id: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Optional charge ID; only the customer, email, IP, and card of this charge are analysed.'),
+  flagged_only: z
+    .boolean()
+    .default(true)
+    .describe('When true, only entities over a configured threshold are returned (default: true).'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .default(50)
+    .describe('Maximum number of entities returned (default: 50).'),
+  profile: profileArgument,
+};
+const velocitySchema = z.object(velocityShape);
+type VelocityInput = z.infer<typeof velocitySchema>;
+
+const linkTypes = ['card_fingerprint', 'email', 'ip_address'] as const;
+type LinkType = (typeof linkTypes)[number];
+
+const linkedEntitiesShape = {
+  charge_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Stripe Charge ID (ch_...) to start from.'),
+  link_types: z
+    .array(z.enum(linkTypes))
+    .min(1)
+    .default([...linkTypes])
+    .describe('Identifiers to follow (default: card_fingerprint, email, ip_address).'),
+  lookback_days: z
+    .number()
+    .int()
+    .positive()
+    .max(365)
+    .default(90)
+    .describe('Only consider charges created within this many days before now (default: 90).'),
+  max_scanned: z
+    .number()
+    .int()
+    .positive()
+    .max(5000)
+    .default(1000)
+    .describe(
+      'Maximum number of charges scanned for links that the Search API cannot answer, such as IP addresses (default: 1000).'
+    ),
+  max_linked: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .default(100)
+    .describe('Maximum number of linked charges returned (default: 100).'),
+  profile: profileArgument,
+};
+const linkedEntitiesSchema = z.object(linkedEntitiesShape);
+type LinkedEntitiesInput = z.infer<typeof linkedEntitiesSchema>;
+
+const listReviewsShape = {
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .default(10)
+    .describe('Number of matching open reviews to return (default: 10).'),
+  starting_after: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Review ID (prv_...) to continue pagination after. Use next_starting_after from a previous call.'),
+  reasons: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe(
+      'Only return reviews whose reason is one of these values (e.g. rule, manual). Further pages are fetched until limit reviews match or max_scanned reviews have been read.'
+    ),
+  created_gte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Only return reviews created at or after this Unix timestamp (seconds).'),
+  created_lte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Only return reviews created at or before this Unix timestamp (seconds).'),
+  max_scanned: z
+    .number()
+    .int()
+    .positive()
+    .max(2000)
+    .default(500)
+    .describe('Maximum number of open reviews read while filling the page (default: 500).'),
+  include_recommendation: z
+    .boolean()
+    .default(true)
+    .describe('When true, run the fraud insight pipeline on each review charge to attach a recommendation.'),
+  profile: profileArgument,
+};
+const listReviewsSchema = z.object(listReviewsShape);
+type ListReviewsInput = z.infer<typeof listReviewsSchema>;
+
+const approveReviewShape = {
+  review_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Stripe Radar review ID (prv_...) to approve.'),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
+};
+const approveReviewSchema = z.object(approveReviewShape);
+type ApproveReviewInput = z.infer<typeof approveReviewSchema>;
+
+const disputeEvidenceTextFields = [
+  'access_activity_log',
+  'billing_address',
+  'cancellation_policy_disclosure',
+  'cancellation_rebuttal',
+  'customer_email_address',
+  'customer_name',
+  'customer_purchase_ip',
+  'duplicate_charge_explanation',
+  'duplicate_charge_id',
+  'product_description',
+  'refund_policy_disclosure',
+  'refund_refusal_explanation',
+  'service_date',
+  'shipping_address',
+  'shipping_carrier',
+  'shipping_date',
+  'shipping_tracking_number',
+  'uncategorized_text',
+] as const;
+type DisputeEvidenceTextField = (typeof disputeEvidenceTextFields)[number];
+
+const disputeEvidenceShape = {
+  dispute_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Stripe Dispute ID (dp_...) to draft evidence for.'),
+  action: z
+    .enum(['preview', 'stage', 'submit'])
+    .default('preview')
+    .describe(
+      'preview only drafts and diffs evidence. stage saves it on the dispute without submitting. submit saves it and submits it to the card network (final).'
+    ),
+  overrides: z
+    .record(z.enum(disputeEvidenceTextFields), z.string())
+    .optional()
+    .describe('Optional evidence text fields that replace the drafted values (e.g. product_description).'),
+  overwrite_existing: z
+    .boolean()
+    .default(false)
+    .describe(
+      'When true, drafted values replace evidence already attached to the dispute. Overrides always apply.'
+    ),
+  max_prior_charges: z
+    .number()
+    .int()
+    .nonnegative()
+    .max(100)
+    .default(10)
+    .describe('Maximum number of prior successful customer charges to cite (default: 10).'),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
+};
+const disputeEvidenceSchema = z.object(disputeEvidenceShape);
+type DisputeEvidenceInput = z.infer<typeof disputeEvidenceSchema>;
+
+const listValueListsShape = {
+  alias: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Optional value list alias to filter by.'),
+  contains: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Optional value; only lists containing this item are returned.'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .default(25)
+    .describe('Number of value lists to return (default: 25).'),
+  starting_after: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Value list ID (rsl_...) to continue pagination after.'),
+  profile: profileArgument,
+};
+const listValueListsSchema = z.object(listValueListsShape);
+type ListValueListsInput = z.infer<typeof listValueListsSchema>;
+
+const searchValueListItemsShape = {
+  value_list: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Value list ID (rsl_...) to search.'),
+  value: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Optional exact value to look for. Omit to page through all items.'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .default(25)
+    .describe('Number of items to return (default: 25).'),
+  starting_after: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Value list item ID (rsli_...) to continue pagination after.'),
+  profile: profileArgument,
+};
+const searchValueListItemsSchema = z.object(searchValueListItemsShape);
+type SearchValueListItemsInput = z.infer<typeof searchValueListItemsSchema>;
+
+const addValueListItemShape = {
+  value_list: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Value list ID (rsl_...) to add the item to.'),
+  value: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Value to add, e.g. a card fingerprint, email address, or IP address.'),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
+};
+const addValueListItemSchema = z.object(addValueListItemShape);
+type AddValueListItemInput = z.infer<typeof addValueListItemSchema>;
+
+const removeValueListItemShape = {
+  item_id: z
+    .string()
+    .trim()
+    .min(1)
+    .describe('Value list item ID (rsli_...) to remove.'),
+  confirm_live_account: liveAccountConfirmation,
+  profile: profileArgument,
+};
+const removeValueListItemSchema = z.object(removeValueListItemShape);
+type RemoveValueListItemInput = z.infer<typeof removeValueListItemSchema>;
+
+const blocklistItemTypes = ['card_fingerprint', 'email', 'ip_address'] as const;
+type BlocklistItemType = (typeof blocklistItemTypes)[number];
+
+const blocklistProposalShape = {
+  payment_intent_id: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Stripe PaymentIntent ID (pi_...) whose charge should be inspected.'),
+  charge_id: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Stripe Charge ID (ch_...) to inspect.'),
+  item_types: z
+    .array(z.enum(blocklistItemTypes))
+    .min(1)
+    .default([...blocklistItemTypes])
+    .describe('Identifiers to propose for blocking (default: card_fingerprint, email, ip_address).'),
+  value_list_ids: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe('Optional value list IDs to restrict proposals to. Defaults to every list with a matching item type.'),
+  profile: profileArgument,
+};
+const blocklistProposalSchema = z.object(blocklistProposalShape);
+type BlocklistProposalInput = z.infer<typeof blocklistProposalSchema>;
+
+const recentEventsShape = {
+  types: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe(
+      'Only return events of these types. A trailing "*" matches a prefix, e.g. "charge.dispute.*".'
+    ),
+  object_id: z
+    .string()
+    .trim()
+    .optional()
+    .describe(
+      'Only return events whose object, or its charge, PaymentIntent, customer, review, or dispute, has this ID.'
+    ),
+  created_gte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Only return events created at or after this Unix timestamp (seconds).'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(200)
+    .default(25)
+    .describe('Maximum number of events to return, newest first (default: 25).'),
+  include_objects: z
+    .boolean()
+    .default(false)
+    .describe('When true, include the full event object (data.object) for each event.'),
+};
+const recentEventsSchema = z.object(recentEventsShape);
+type RecentEventsInput = z.infer<typeof recentEventsSchema>;
+
+const auditLogShape = {
+  created_gte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Only return entries recorded at or after this Unix timestamp (seconds).'),
+  created_lte: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Only return entries recorded at or before this Unix timestamp (seconds).'),
+  tool: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Only return entries for this tool, e.g. stripe_create_refund.'),
+  object_id: z
+    .string()
+    .trim()
+    .optional()
+    .describe('Only return entries that touched this Stripe object ID (charge, refund, review, dispute, ...).'),
+  outcome: z
+    .enum(auditOutcomes)
+    .optional()
+    .describe('Only return entries with this outcome.'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .default(50)
+    .describe('Maximum number of entries to return, newest first (default: 50).'),
+  verify: z
+    .boolean()
+    .default(true)
+    .describe('When true, verify the hash chain of the whole file and report the first broken entry.'),
+  profile: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe('Only return entries recorded for this profile.'),
+};
+const auditLogSchema = z.object(auditLogShape);
+type AuditLogInput = z.infer<typeof auditLogSchema>;
+
+function registerStripeTools({
+  server,
+  profiles,
+  logger,
+  recommendationPolicy,
+  rawRequestPolicy,
+  refundGuardrails,
+  velocityConfig,
+  webhookReceiver,
+  auditLog,
+  redactor,
+  confirmations,
+  objectCache,
+  metadata,
+}: {
+  server: McpServer;
+  profiles: StripeProfiles;
+  logger: Logger;
+  recommendationPolicy: RecommendationPolicy;
+  rawRequestPolicy: RawRequestPolicy;
+  refundGuardrails: RefundGuardrails;
+  velocityConfig: VelocityConfig;
+  webhookReceiver: WebhookReceiver | null;
+  auditLog: AuditLog | null;
+  redactor: Redactor;
+  confirmations: ConfirmationStore;
+  objectCache: StripeObjectCache | null;
+  metadata: {
+    logSinks: string[];
+    fixtures: { mode: 'record' | 'replay'; directory: string } | null;
+  };
+}) {
+  const registerTool = createToolRegistrar(server, redactor);
+  const toolsLogger = logger.child('tools');
+  toolsLogger.info('Registering Stripe tools');
+  const statusLogger = toolsLogger.child('stripe_status');
+  const fraudLogger = toolsLogger.child('stripe_fraud_insight');
+  const refundLogger = toolsLogger.child('stripe_create_refund');
+  const bulkRefundLogger = toolsLogger.child('stripe_bulk_refund');
+  const rawRequestLogger = toolsLogger.child('stripe_raw_request');
+  const triageLogger = toolsLogger.child('stripe_fraud_triage_queue');
+  const connectSweepLogger = toolsLogger.child('stripe_connect_fraud_sweep');
+  const customerProfileLogger = toolsLogger.child('stripe_customer_risk_profile');
+  const linkedEntitiesLogger = toolsLogger.child('stripe_linked_entities');
+  const velocityLogger = toolsLogger.child('stripe_velocity');
+  const listReviewsLogger = toolsLogger.child('stripe_list_reviews');
+  const approveReviewLogger = toolsLogger.child('stripe_approve_review');
+  const disputeEvidenceLogger = toolsLogger.child('stripe_dispute_evidence');
+  const valueListsLogger = toolsLogger.child('stripe_list_value_lists');
+  const valueListItemsLogger = toolsLogger.child('stripe_search_value_list_items');
+  const addValueListItemLogger = toolsLogger.child('stripe_add_value_list_item');
+  const removeValueListItemLogger = toolsLogger.child('stripe_remove_value_list_item');
+  const blocklistProposalLogger = toolsLogger.child('stripe_blocklist_proposal');
+  const recentEventsLogger = toolsLogger.child('stripe_recent_events');
+  const auditLogLogger = toolsLogger.child('stripe_audit_log');
+  registerTool(
+    'stripe_status',
+    {
+      title: 'Stripe MCP Status',
+      description:
+        'Returns server health information and validates Stripe API connectivity for every configured profile, or only for the given profile.',
+      inputSchema: statusShape,
+    },
+    async (input: StatusInput) => {
+      statusLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        stripe_account_override: input.stripe_account ?? null,
+      });
+
+      try {
+        const selected = profiles.resolve(input.profile);
+        const probed = input.profile ? [selected] : profiles.list();
+        const probes = await Promise.all(
+          probed.map((profile) =>
+            probeStripeProfile(
+              profiles,
+              profile,
+              rawRequestPolicy.readOnly,
+              profile === selected ? (input.stripe_account ?? null) : null,
+              statusLogger
+            )
+          )
+        );
+        const selectedProbe = probes[probed.indexOf(selected)]!;
+        const failed = probes.filter((probe) => probe.status === 'error').length;
+
+        const summaryLines: string[] = [
+          `Mode: ${
+            selectedProbe.mode === 'live' ? 'LIVE' : selectedProbe.mode === 'test' ? 'test' : 'unknown'
+          } | profile ${selected.name} | ${profileWriteDescriptions[selectedProbe.writes]}`,
+          `Server time: ${new Date().toISOString()}`,
+          `Log level: ${logger.level} (sinks: ${metadata.logSinks.join(', ')})`,
+          `Default profile: ${profiles.defaultName}`,
+          ...probes.map(describeProfileProbe),
+          `Raw request policy: ${describeRawRequestPolicySummary(rawRequestPolicy)}`,
+          `Webhook receiver: ${describeWebhookReceiverSummary(webhookReceiver)}`,
+          `Audit log: ${auditLog?.path ?? 'disabled'}`,
+          ...(metadata.fixtures
+            ? [`Fixtures: ${metadata.fixtures.mode} (${metadata.fixtures.directory})`]
+            : []),
+        ];
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: {
+            status: failed === 0 ? 'ok' : 'degraded',
+            server_time: new Date().toISOString(),
+            log_level: logger.level,
+            log_sinks: metadata.logSinks,
+            default_profile: profiles.defaultName,
+            profile: selected.name,
+            mode: selectedProbe.mode,
+            writes: selectedProbe.writes,
+            stripe_api_version: selected.apiVersion,
+            default_stripe_account: selected.defaultStripeAccount,
+            stripe_account_used: selectedProbe.stripe_account_used,
+            raw_request_policy: describeRawRequestPolicy(rawRequestPolicy),
+            webhooks: webhookReceiver?.status() ?? null,
+            audit_log: auditLog?.path ?? null,
+            fixtures: metadata.fixtures,
+            account: selectedProbe.account,
+            profiles: probes,
+          },
+          ...(selectedProbe.status === 'error' ? { isError: true } : {}),
+        };
+      } catch (error) {
+        statusLogger.error('Status tool failed', {
+          profile: input.profile ?? null,
           error_message: error instanceof Error ? error.message : String(error),
           error_stack: error instanceof Error ? error.stack : undefined,
         });
@@ -265,7 +1315,7 @@ function registerStripeTools({
       }
     }
   );
-  server.registerTool(
+  registerTool(
     'stripe_fraud_insight',
     {
       title: 'Stripe Radar Fraud Insight',
@@ -275,11 +1325,20 @@ function registerStripeTools({
     },
     async (input: FraudInsightInput) => {
       fraudLogger.info('Invocation received', {
+        profile: input.profile ?? null,
         has_payment_intent: Boolean(input.payment_intent_id),
         has_charge: Boolean(input.charge_id),
         include_events: input.include_events,
+        include_velocity: input.include_velocity ?? false,
+        stripe_account: input.stripe_account ?? null,
       });
       try {
+        const fetcher = openStripeFetcher(
+          profiles.resolve(input.profile),
+          input.stripe_account ?? null,
+          objectCache,
+          fraudLogger
+        );
         if (!input.payment_intent_id && !input.charge_id) {
           fraudLogger.warn('Missing identifiers for fraud insight request');
           throw new Error(
@@ -287,9 +1346,16 @@ function registerStripeTools({
           );
         }
 
-        const insight = await buildFraudInsight(stripe, input, fraudLogger);
+        const insight = await buildFraudInsight(
+          fetcher,
+          input,
+          fraudLogger,
+          recommendationPolicy,
+          velocityConfig
+        );
 
         const summaryLines: string[] = [
+          ...(input.stripe_account ? [`Connected account: ${input.stripe_account}`] : []),
           `Payment Intent: ${insight.paymentIntent?.id ?? 'n/a'} | status: ${
             insight.paymentIntent?.status ?? 'unknown'
           }`,
@@ -298,15 +1364,17 @@ function registerStripeTools({
           } | risk score: ${insight.charge?.outcome?.risk_score ?? 'unknown'}`,
           `Recommendation: ${insight.recommendation.action.toUpperCase()} - ${
             insight.recommendation.reason
-          }`,
+          }${insight.recommendation.rule ? ` (rule: ${insight.recommendation.rule})` : ''}`,
         ];
 
         fraudLogger.info('Fraud insight generated', {
           payment_intent: insight.paymentIntent?.id ?? null,
           charge: insight.charge?.id ?? null,
           recommendation: insight.recommendation.action,
+          recommendation_rule: insight.recommendation.rule,
           risk_level: insight.charge?.outcome?.risk_level ?? null,
           risk_score: insight.charge?.outcome?.risk_score ?? null,
+          fetches: fetcher.stats,
         });
 
         return {
@@ -318,7 +1386,10 @@ function registerStripeTools({
               )}\n\nFull details:\n${JSON.stringify(insight, null, 2)}`,
             },
           ],
-          structuredContent: insight as Record<string, unknown>,
+          structuredContent: {
+            ...insight,
+            stripe_account: input.stripe_account ?? null,
+          } as Record<string, unknown>,
         };
       } catch (error) {
         fraudLogger.error('Fraud insight tool failed', {
@@ -330,28 +1401,52 @@ function registerStripeTools({
     }
   );
 
-  server.registerTool(
+  registerTool(
     'stripe_create_refund',
     {
       title: 'Stripe Refund Creator',
       description:
-        'Creates a refund for a charge or payment intent, supporting partial refunds and metadata.',
+        'Creates a refund for a charge or payment intent, supporting partial refunds and metadata. Over-refunds, duplicates, and refunds above configured caps are rejected. The first call returns a plan and confirmation token; call again with the token to execute.',
       inputSchema: refundShape,
     },
     async (input: RefundInput) => {
       refundLogger.info('Invocation received', {
+        profile: input.profile ?? null,
         has_payment_intent: Boolean(input.payment_intent_id),
         has_charge: Boolean(input.charge_id),
         amount: input.amount ?? null,
         reason: input.reason ?? null,
+        stripe_account: input.stripe_account ?? null,
+        confirming: Boolean(input.confirmation_token),
       });
       try {
+        const profile = profiles.resolve(input.profile);
+        const stripeAccount = input.stripe_account ?? null;
+        const stripe = profile.forAccount(stripeAccount);
         if (!input.payment_intent_id && !input.charge_id) {
           refundLogger.warn('Missing identifiers for refund request');
           throw new Error(
             'You must provide either payment_intent_id or charge_id to create a refund.'
           );
         }
+        const rejection = await rejectProfileWrite(
+          profile,
+          rawRequestPolicy.readOnly,
+          auditLog,
+          {
+            tool: 'stripe_create_refund',
+            account: stripeAccount,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.charge_id, input.payment_intent_id].filter(
+              (id): id is string => id !== undefined
+            ),
+          },
+          input.confirm_live_account,
+          refundLogger
+        );
+        if (rejection) {
+          return rejection;
+        }
 
         const params: Stripe.RefundCreateParams = {};
         if (input.payment_intent_id) {
@@ -370,6 +1465,78 @@ function registerStripeTools({
           params.metadata = input.metadata;
         }
 
+        const refundContext = await loadRefundContext(
+          stripe,
+          params,
+          refundGuardrails,
+          refundLogger
+        );
+        if (!refundContext.assessment.allowed) {
+          refundLogger.warn('Refund blocked by guardrails', {
+            charge: refundContext.charge.id,
+            amount: refundContext.assessment.amount,
+            currency: refundContext.assessment.currency,
+            violations: refundContext.assessment.violations.map(
+              (violation) => violation.code
+            ),
+          });
+          await auditLog?.record({
+            tool: 'stripe_create_refund',
+            profile: profile.name,
+            outcome: 'blocked',
+            account: stripeAccount,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: refundObjectIds(refundContext.charge.id, params),
+            stripe_request_id: null,
+            idempotency_key: null,
+            result: null,
+            error: refundContext.assessment.violations
+              .map((violation) => `${violation.code}: ${violation.message}`)
+              .join(' '),
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Refund on ${refundContext.charge.id} blocked:\n${refundContext.assessment.violations
+                  .map((violation) => `- ${violation.message}`)
+                  .join('\n')}`,
+              },
+            ],
+            structuredContent: {
+              blocked: true,
+              charge_id: refundContext.charge.id,
+              ...refundContext.assessment,
+            },
+            isError: true,
+          };
+        }
+
+        if (!input.confirmation_token) {
+          const plan = planRefund(refundContext, params, profile.name, stripeAccount, confirmations);
+          refundLogger.info('Refund plan issued', {
+            charge: plan.target.charge_id,
+            payment_intent: plan.target.payment_intent_id,
+            amount: plan.amount,
+            currency: plan.currency,
+            expires_at: plan.expires_at,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: describeMutationPlan(plan),
+              },
+            ],
+            structuredContent: plan,
+          };
+        }
+
+        confirmations.consume('stripe_create_refund', input.confirmation_token, {
+          profile: profile.name,
+          stripe_account: stripeAccount,
+          params,
+        });
         refundLogger.debug('Creating refund with parameters', {
           payment_intent: params.payment_intent ?? null,
           charge: params.charge ?? null,
@@ -377,7 +1544,28 @@ function registerStripeTools({
           reason: params.reason ?? null,
           metadata_keys: params.metadata ? Object.keys(params.metadata) : [],
         });
-        const refundResponse = await stripe.refunds.create(params);
+        const idempotencyKey = newIdempotencyKey();
+        const refundResponse = await auditMutation(
+          auditLog,
+          {
+            tool: 'stripe_create_refund',
+            profile: profile.name,
+            account: stripeAccount,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: refundObjectIds(refundContext.charge.id, params),
+            idempotency_key: idempotencyKey,
+          },
+          () => stripe.refunds.create(params, { idempotencyKey }),
+          (created) => ({
+            object_ids: [created.id],
+            result: {
+              refund_id: created.id,
+              status: created.status ?? null,
+              amount: created.amount,
+              currency: created.currency,
+            },
+          })
+        );
         const refund = refundResponse as Stripe.Refund;
         refundLogger.info('Refund created', {
           refund_id: refund.id,
@@ -416,17 +1604,18 @@ function registerStripeTools({
     }
   );
 
-  server.registerTool(
+  registerTool(
     'stripe_raw_request',
     {
       title: 'Stripe Raw API Request',
       description:
-        'Direct access to any Stripe REST endpoint using the authenticated SDK client.',
+        'Direct access to Stripe REST endpoints permitted by the configured raw_request_policy, using the authenticated SDK client. POST and DELETE requests first return a plan and confirmation token; call again with the token to execute.',
       inputSchema: rawRequestShape,
     },
     async (input: RawRequestInput) => {
       const method = input.method.toUpperCase() as RawRequestInput['method'];
       rawRequestLogger.info('Invocation received', {
+        profile: input.profile ?? null,
         method,
         path: input.path,
         has_query: Boolean(input.query),
@@ -434,6 +1623,8 @@ function registerStripeTools({
         idempotency_key: input.idempotency_key ?? null,
         explicit_stripe_account: input.stripe_account ?? null,
         api_version: input.api_version ?? null,
+        auto_paginate: input.auto_paginate,
+        confirming: Boolean(input.confirmation_token),
       });
 
       let path = input.path;
@@ -449,34 +1640,201 @@ function registerStripeTools({
       const params =
         method === 'POST' ? (input.payload ?? {}) : (undefined as undefined);
 
+      const profile = profiles.resolve(input.profile);
+      const { stripe } = profile;
       const stripeAccount =
-        input.stripe_account ?? defaultStripeAccount ?? undefined;
-
-      try {
-        rawRequestLogger.debug('Dispatching raw request', {
-          method,
-          path,
-          stripe_account: stripeAccount ?? null,
-        });
-        const response = await stripe.rawRequest(method, path, params, {
-          ...(input.idempotency_key
-            ? { idempotencyKey: input.idempotency_key }
-            : {}),
-          ...(stripeAccount ? { stripeAccount } : {}),
-          ...(input.api_version ? { apiVersion: input.api_version } : {}),
-        });
-
-        const { lastResponse, ...responseData } =
-          response as Stripe.Response<Record<string, unknown>>;
+        input.stripe_account ?? profile.defaultStripeAccount ?? undefined;
 
-        rawRequestLogger.info('Raw request completed', {
+      const decision = evaluateRawRequestPolicy(rawRequestPolicy, method, path);
+      if (!decision.allowed) {
+        rawRequestLogger.warn('Raw request blocked by policy', {
           method,
           path,
-          status: lastResponse.statusCode,
-          request_id: lastResponse.requestId,
-          stripe_account: lastResponse.stripeAccount ?? null,
+          rule: decision.rule,
         });
-
+        if (method !== 'GET') {
+          await auditLog?.record({
+            tool: 'stripe_raw_request',
+            profile: profile.name,
+            outcome: 'blocked',
+            account: stripeAccount ?? null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: objectIdsInPath(path),
+            stripe_request_id: null,
+            idempotency_key: input.idempotency_key ?? null,
+            result: null,
+            error: `${decision.rule ?? 'policy'}: ${decision.reason}`,
+          });
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Stripe ${method} ${path} blocked by raw_request_policy.\n${decision.reason}`,
+            },
+          ],
+          structuredContent: {
+            blocked: true,
+            method,
+            path,
+            rule: decision.rule,
+            message: decision.reason,
+          },
+          isError: true,
+        };
+      }
+
+      try {
+        if (method !== 'GET') {
+          const rejection = await rejectProfileWrite(
+            profile,
+            rawRequestPolicy.readOnly,
+            auditLog,
+            {
+              tool: 'stripe_raw_request',
+              account: stripeAccount ?? null,
+              inputs: sanitizeAuditInputs(input, redactor),
+              object_ids: objectIdsInPath(path),
+            },
+            input.confirm_live_account,
+            rawRequestLogger
+          );
+          if (rejection) {
+            return rejection;
+          }
+
+          const binding = {
+            profile: profile.name,
+            method,
+            path,
+            params: params ?? null,
+            idempotency_key: input.idempotency_key ?? null,
+            stripe_account: stripeAccount ?? null,
+            api_version: input.api_version ?? null,
+          };
+          if (!input.confirmation_token) {
+            const plan = planRawRequest(binding, confirmations);
+            rawRequestLogger.info('Raw request plan issued', {
+              method,
+              path,
+              stripe_account: stripeAccount ?? null,
+              expires_at: plan.expires_at,
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: describeMutationPlan(plan),
+                },
+              ],
+              structuredContent: plan,
+            };
+          }
+          confirmations.consume('stripe_raw_request', input.confirmation_token, binding);
+        }
+
+        rawRequestLogger.debug('Dispatching raw request', {
+          method,
+          path,
+          stripe_account: stripeAccount ?? null,
+        });
+
+        if (input.auto_paginate) {
+          if (method !== 'GET') {
+            throw new Error('auto_paginate is only supported for GET requests.');
+          }
+          const paginated = await paginateRawRequest(
+            stripe,
+            path,
+            {
+              ...(stripeAccount ? { stripeAccount } : {}),
+              ...(input.api_version ? { apiVersion: input.api_version } : {}),
+            },
+            input.max_items,
+            rawRequestLogger
+          );
+          const { lastResponse } = paginated;
+
+          rawRequestLogger.info('Paginated raw request completed', {
+            method,
+            path,
+            pages: paginated.pagination.pages,
+            items: paginated.pagination.items,
+            truncated: paginated.pagination.truncated,
+            request_id: lastResponse.requestId,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Stripe ${method} ${path}\nStatus: ${lastResponse.statusCode}\nPages: ${
+                  paginated.pagination.pages
+                } | items: ${paginated.pagination.items}${
+                  paginated.pagination.truncated ? ' (truncated at max_items)' : ''
+                }\n\n${JSON.stringify(paginated.data, null, 2)}`,
+              },
+            ],
+            structuredContent: {
+              status: lastResponse.statusCode,
+              headers: lastResponse.headers,
+              request_id: lastResponse.requestId,
+              api_version: lastResponse.apiVersion ?? null,
+              idempotency_key: null,
+              stripe_account: lastResponse.stripeAccount ?? null,
+              pagination: paginated.pagination,
+              data: paginated.data,
+            },
+          };
+        }
+
+        const idempotencyKey =
+          method === 'POST' ? (input.idempotency_key ?? newIdempotencyKey()) : null;
+        const dispatch = () =>
+          stripe.rawRequest(method, path, params, {
+            ...(idempotencyKey ? { idempotencyKey } : {}),
+            ...(stripeAccount ? { stripeAccount } : {}),
+            ...(input.api_version ? { apiVersion: input.api_version } : {}),
+          });
+        const response =
+          method === 'GET'
+            ? await dispatch()
+            : await auditMutation(
+                auditLog,
+                {
+                  tool: 'stripe_raw_request',
+                  profile: profile.name,
+                  account: stripeAccount ?? null,
+                  inputs: sanitizeAuditInputs(input, redactor),
+                  object_ids: objectIdsInPath(path),
+                  idempotency_key: idempotencyKey,
+                },
+                dispatch,
+                (completed) => {
+                  const id = (completed as { id?: unknown }).id;
+                  return {
+                    object_ids: typeof id === 'string' ? [id] : [],
+                    result: {
+                      method,
+                      path,
+                      status: completed.lastResponse.statusCode,
+                      id: typeof id === 'string' ? id : null,
+                    },
+                  };
+                }
+              );
+
+        const { lastResponse, ...responseData } =
+          response as Stripe.Response<Record<string, unknown>>;
+
+        rawRequestLogger.info('Raw request completed', {
+          method,
+          path,
+          status: lastResponse.statusCode,
+          request_id: lastResponse.requestId,
+          stripe_account: lastResponse.stripeAccount ?? null,
+        });
+
         return {
           content: [
             {
@@ -538,210 +1896,4336 @@ function registerStripeTools({
       }
     }
   );
+
+  registerTool(
+    'stripe_bulk_refund',
+    {
+      title: 'Stripe Bulk Refund',
+      description:
+        'Fully refunds a list of charges or PaymentIntents (or charges selected by query) with deterministic idempotency keys and bounded concurrency. The first call returns a dry-run plan and confirmation token; call again with the token to execute. Re-running a batch is safe.',
+      inputSchema: bulkRefundShape,
+    },
+    async (input: BulkRefundInput) => {
+      bulkRefundLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        target_count: input.targets?.length ?? null,
+        has_query: Boolean(input.query),
+        reason: input.reason ?? null,
+        batch_id: input.batch_id ?? null,
+        concurrency: input.concurrency,
+        confirming: Boolean(input.confirmation_token),
+      });
+      try {
+        const profile = profiles.resolve(input.profile);
+        const { stripe } = profile;
+        if (Boolean(input.targets) === Boolean(input.query)) {
+          bulkRefundLogger.warn('Bulk refund requires exactly one of targets or query');
+          throw new Error('Provide exactly one of targets or query to select refunds.');
+        }
+        const rejection = await rejectProfileWrite(
+          profile,
+          rawRequestPolicy.readOnly,
+          auditLog,
+          {
+            tool: 'stripe_bulk_refund',
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: input.targets ?? [],
+          },
+          input.confirm_live_account,
+          bulkRefundLogger
+        );
+        if (rejection) {
+          return rejection;
+        }
+
+        // Query targets are resolved once, at preview time, and kept with the
+        // token: charges created between preview and confirm must neither
+        // join the batch nor invalidate the token.
+        const binding = {
+          profile: profile.name,
+          targets: input.targets ? [...new Set(input.targets)] : null,
+          query: input.query ?? null,
+          reason: input.reason ?? null,
+          metadata: input.metadata ?? null,
+          batch_id: input.batch_id ?? null,
+        };
+        const ledger = createDailyRefundLedger();
+
+        if (!input.confirmation_token) {
+          const plan: BulkRefundPlan = binding.targets
+            ? { targets: binding.targets, window: null }
+            : await selectBulkRefundTargets(stripe, input.query!, bulkRefundLogger);
+          const { targets } = plan;
+          const items = await mapWithConcurrency(targets, input.concurrency, (target) =>
+            previewBulkRefundItem(stripe, target, input, refundGuardrails, ledger, bulkRefundLogger)
+          );
+          const grant = confirmations.issue('stripe_bulk_refund', binding, plan);
+          const result = {
+            status: 'confirmation_required',
+            window: plan.window,
+            counts: countBulkRefundItems(items),
+            items,
+            confirmation_token: grant.token,
+            expires_at: grant.expires_at,
+          };
+          bulkRefundLogger.info('Bulk refund plan issued', {
+            targets: targets.length,
+            window: plan.window,
+            counts: result.counts,
+            expires_at: grant.expires_at,
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: [
+                  `Dry run for ${targets.length} target(s): ${describeBulkRefundCounts(result.counts)}`,
+                  ...(plan.window
+                    ? [
+                        `Charges created ${new Date(
+                          plan.window.created_gte * 1000
+                        ).toISOString()} -> ${new Date(
+                          plan.window.created_lte * 1000
+                        ).toISOString()}; confirming refunds exactly these targets.`,
+                      ]
+                    : []),
+                  ...items.map(describeBulkRefundItem),
+                  `Confirmation token: ${grant.token} (expires ${grant.expires_at})`,
+                  'Call stripe_bulk_refund again with the same parameters and confirmation_token to execute.',
+                ].join('\n'),
+              },
+            ],
+            structuredContent: result,
+          };
+        }
+
+        const { targets } = confirmations.consume(
+          'stripe_bulk_refund',
+          input.confirmation_token,
+          binding
+        ) as BulkRefundPlan;
+        // Each item is audited as soon as it finishes, so a crash part-way
+        // through the batch leaves every executed refund on record.
+        const items = await mapWithConcurrency(targets, input.concurrency, (target) =>
+          executeBulkRefundItem(
+            stripe,
+            target,
+            input,
+            refundGuardrails,
+            ledger,
+            auditLog,
+            {
+              tool: 'stripe_bulk_refund',
+              profile: profile.name,
+              account: null,
+              inputs: sanitizeAuditInputs(
+                {
+                  target,
+                  reason: input.reason,
+                  metadata: input.metadata,
+                  batch_id: input.batch_id,
+                },
+                redactor
+              ),
+            },
+            bulkRefundLogger
+          )
+        );
+        const counts = countBulkRefundItems(items);
+        bulkRefundLogger.info('Bulk refund completed', {
+          targets: targets.length,
+          counts,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Bulk refund of ${targets.length} target(s): ${describeBulkRefundCounts(counts)}`,
+                ...items.map(describeBulkRefundItem),
+              ].join('\n'),
+            },
+          ],
+          structuredContent: {
+            status: 'completed',
+            counts,
+            items,
+          },
+        };
+      } catch (error) {
+        bulkRefundLogger.error('Bulk refund tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_fraud_triage_queue',
+    {
+      title: 'Stripe Fraud Triage Queue',
+      description:
+        'Lists charges in a time window, runs the fraud insight pipeline on each one, and returns a ranked triage queue.',
+      inputSchema: triageQueueShape,
+    },
+    async (input: TriageQueueInput) => {
+      triageLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        created_gte: input.created_gte ?? null,
+        created_lte: input.created_lte ?? null,
+        lookback_hours: input.lookback_hours,
+        risk_levels: input.risk_levels ?? null,
+        open_reviews_only: input.open_reviews_only,
+        actionable_efw_only: input.actionable_efw_only,
+        limit: input.limit,
+        concurrency: input.concurrency,
+      });
+      try {
+        const fetcher = openStripeFetcher(
+          profiles.resolve(input.profile),
+          null,
+          objectCache,
+          triageLogger
+        );
+        const queue = await buildTriageQueue(
+          fetcher,
+          input,
+          triageLogger,
+          recommendationPolicy
+        );
+
+        const summaryLines: string[] = [
+          `Window: ${new Date(queue.window.created_gte * 1000).toISOString()} -> ${new Date(
+            queue.window.created_lte * 1000
+          ).toISOString()}`,
+          `Scanned ${queue.scanned} ${triageSourceLabels[queue.source]}, analysed ${
+            queue.analysed
+          }, queued ${queue.queue.length}${
+            queue.truncated ? ' (truncated)' : ''
+          }`,
+          `Counts: ${fraudActions
+            .map((action) => `${action}=${queue.counts[action]}`)
+            .join(', ')}`,
+          ...queue.queue.map(
+            (item) =>
+              `#${item.rank} ${item.charge_id} | ${item.amount} ${item.currency} | risk: ${
+                item.risk_level ?? 'unknown'
+              }/${item.risk_score ?? 'n/a'} | ${item.recommendation.action.toUpperCase()} - ${
+                item.recommendation.reason
+              }`
+          ),
+        ];
+        if (queue.failures.length > 0) {
+          summaryLines.push(`Failures: ${queue.failures.length}`);
+        }
+
+        triageLogger.info('Triage queue generated', {
+          scanned: queue.scanned,
+          analysed: queue.analysed,
+          queued: queue.queue.length,
+          failures: queue.failures.length,
+          counts: queue.counts,
+          fetches: fetcher.stats,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: queue,
+        };
+      } catch (error) {
+        triageLogger.error('Triage queue tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_connect_fraud_sweep',
+    {
+      title: 'Stripe Connect Fraud Sweep',
+      description:
+        "Sweeps the platform's connected accounts for open disputes, actionable early fraud warnings and high-risk charges in a time window, and ranks the accounts by fraud exposure.",
+      inputSchema: connectFraudSweepShape,
+    },
+    async (input: ConnectFraudSweepInput) => {
+      connectSweepLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        account_ids: input.account_ids ?? null,
+        max_accounts: input.max_accounts,
+        created_gte: input.created_gte ?? null,
+        created_lte: input.created_lte ?? null,
+        lookback_hours: input.lookback_hours,
+        risk_levels: input.risk_levels,
+        max_scanned: input.max_scanned,
+        limit: input.limit,
+        concurrency: input.concurrency,
+      });
+      try {
+        const { stripe } = profiles.resolve(input.profile);
+        const sweep = await buildConnectFraudSweep(stripe, input, connectSweepLogger);
+
+        const summaryLines: string[] = [
+          `Window: ${new Date(sweep.window.created_gte * 1000).toISOString()} -> ${new Date(
+            sweep.window.created_lte * 1000
+          ).toISOString()}`,
+          `Swept ${sweep.swept} connected accounts${
+            sweep.accounts_truncated ? ' (account list truncated)' : ''
+          }, ${sweep.exposed} with fraud exposure`,
+          `Totals: open disputes=${sweep.totals.open_disputes}, actionable EFWs=${sweep.totals.actionable_efws}, high-risk charges=${sweep.totals.high_risk_charges}`,
+          ...sweep.accounts.map(
+            (item) =>
+              `#${item.rank} ${item.account_id}${item.name ? ` (${item.name})` : ''} | score ${
+                item.score
+              } | disputes ${item.open_disputes.count} (${formatCurrencyTotals(
+                item.open_disputes.amount_by_currency
+              )}) | EFWs ${item.actionable_efws.count} | high risk ${
+                item.high_risk_charges.count
+              } (${formatCurrencyTotals(item.high_risk_charges.amount_by_currency)})${
+                describeConnectSweepTruncation(item)
+              }`
+          ),
+        ];
+        if (sweep.disputes_truncated > 0) {
+          summaryLines.push(
+            `Disputes truncated: only the newest ${input.max_scanned} disputes were checked for ${sweep.disputes_truncated} account(s), so older open disputes may be missing. Raise max_scanned to include them.`
+          );
+        }
+        if (sweep.failures.length > 0) {
+          summaryLines.push(
+            `Failures: ${sweep.failures.map((failure) => failure.account_id).join(', ')}`
+          );
+        }
+
+        connectSweepLogger.info('Connect fraud sweep completed', {
+          swept: sweep.swept,
+          exposed: sweep.exposed,
+          returned: sweep.accounts.length,
+          failures: sweep.failures.length,
+          totals: sweep.totals,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: sweep,
+        };
+      } catch (error) {
+        connectSweepLogger.error('Connect fraud sweep tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_customer_risk_profile',
+    {
+      title: 'Stripe Customer Risk Profile',
+      description:
+        'Aggregates a customer\'s charges into dispute, refund, and early fraud warning rates, risk score distribution, distinct cards, countries, and IPs, and returns a customer-level recommendation.',
+      inputSchema: customerRiskProfileShape,
+    },
+    async (input: CustomerRiskProfileInput) => {
+      customerProfileLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        has_customer_id: Boolean(input.customer_id),
+        has_email: Boolean(input.email),
+        created_gte: input.created_gte ?? null,
+        max_charges: input.max_charges,
+      });
+      try {
+        const { stripe } = profiles.resolve(input.profile);
+        if (!input.customer_id && !input.email) {
+          customerProfileLogger.warn('Missing identifiers for customer risk profile');
+          throw new Error(
+            'You must provide either customer_id or email to build a customer risk profile.'
+          );
+        }
+
+        const profile = await buildCustomerRiskProfile(
+          stripe,
+          input,
+          customerProfileLogger,
+          recommendationPolicy
+        );
+
+        const summaryLines: string[] = [
+          `Customers: ${profile.customers.map((customer) => customer.id).join(', ') || 'none'}`,
+          `Charges: ${profile.charges.total} (succeeded: ${profile.charges.succeeded}, failed: ${profile.charges.failed})${
+            profile.charges.truncated ? ' (truncated at max_charges)' : ''
+          }`,
+          `Dispute rate: ${formatRate(profile.rates.dispute_rate)} | refund rate: ${formatRate(
+            profile.rates.refund_rate
+          )} | EFW rate: ${formatRate(profile.rates.efw_rate)}`,
+          `Risk score: min ${profile.risk_score.min ?? 'n/a'}, median ${
+            profile.risk_score.median ?? 'n/a'
+          }, max ${profile.risk_score.max ?? 'n/a'}`,
+          `Distinct cards: ${profile.card_fingerprints.length} | countries: ${
+            profile.issuing_countries.join(', ') || 'n/a'
+          } | IPs: ${profile.ip_addresses.length}`,
+          `Recommendation: ${profile.recommendation.action.toUpperCase()} - ${profile.recommendation.reason}`,
+        ];
+
+        customerProfileLogger.info('Customer risk profile generated', {
+          customers: profile.customers.length,
+          charges: profile.charges.total,
+          recommendation: profile.recommendation.action,
+          recommendation_rule: profile.recommendation.rule,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: profile,
+        };
+      } catch (error) {
+        customerProfileLogger.error('Customer risk profile tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_velocity',
+    {
+      title: 'Stripe Velocity Analysis',
+      description:
+        'Counts charge attempts, declines, and distinct cards per customer, email, IP, and card fingerprint over sliding windows and flags entities above the configured thresholds (card-testing detection).',
+      inputSchema: velocityShape,
+    },
+    async (input: VelocityInput) => {
+      velocityLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        created_lte: input.created_lte ?? null,
+        lookback_hours: input.lookback_hours ?? null,
+        entity_types: input.entity_types,
+        charge_id: input.charge_id ?? null,
+        flagged_only: input.flagged_only,
+      });
+      try {
+        const { stripe } = profiles.resolve(input.profile);
+        const createdLte = input.created_lte ?? Math.floor(Date.now() / 1000);
+        const createdGte =
+          createdLte -
+          (input.lookback_hours
+            ? Math.round(input.lookback_hours * 3600)
+            : longestWindowSeconds(velocityConfig));
+        let only: Partial<Record<(typeof velocityEntityTypes)[number], string | null>> | undefined;
+        let collected: { events: VelocityEvent[]; truncated: boolean };
+        if (input.charge_id) {
+          const seedCharge = await stripe.charges.retrieve(input.charge_id, { expand: ['review'] });
+          const seed = velocityEventFromCharge(seedCharge);
+          only = {
+            customer: seed.customer,
+            email: seed.email,
+            ip_address: seed.ip_address,
+            card_fingerprint: seed.card_fingerprint,
+          };
+          collected = await collectSeedVelocityEvents(
+            stripe,
+            seed,
+            createdGte,
+            createdLte,
+            velocityConfig.max_scanned,
+            velocityLogger
+          );
+        } else {
+          collected = await collectVelocityEvents(
+            stripe,
+            createdGte,
+            createdLte,
+            velocityConfig.max_scanned,
+            velocityLogger
+          );
+        }
+
+        const entities = analyzeVelocity(collected.events, velocityConfig, {
+          entityTypes: input.entity_types,
+          ...(only ? { only } : {}),
+        });
+        const flaggedCount = entities.filter((entity) => entity.flagged).length;
+        const returned = (input.flagged_only
+          ? entities.filter((entity) => entity.flagged)
+          : entities
+        ).slice(0, input.limit);
+
+        const result = {
+          window: { created_gte: createdGte, created_lte: createdLte },
+          windows: velocityConfig.windows,
+          scanned: collected.events.length,
+          truncated: collected.truncated,
+          entity_count: entities.length,
+          flagged_count: flaggedCount,
+          entities: returned,
+        };
+
+        velocityLogger.info('Velocity analysis completed', {
+          scanned: result.scanned,
+          truncated: result.truncated,
+          entities: entities.length,
+          flagged: flaggedCount,
+        });
+
+        const flags = describeVelocityFlags(returned);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Scanned ${result.scanned} charges${result.truncated ? ' (truncated)' : ''}; ${
+                  entities.length
+                } entities, ${flaggedCount} flagged.`,
+                ...(flags.length > 0 ? flags : ['No entities exceeded the velocity thresholds.']),
+              ].join('\n'),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        velocityLogger.error('Velocity tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_linked_entities',
+    {
+      title: 'Stripe Linked Entity Search',
+      description:
+        'Starting from a charge, finds other charges and customers that share its card fingerprint, billing email, or IP address within a lookback window, and returns a link graph with dispute and refund exposure.',
+      inputSchema: linkedEntitiesShape,
+    },
+    async (input: LinkedEntitiesInput) => {
+      linkedEntitiesLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        charge_id: input.charge_id,
+        link_types: input.link_types,
+        lookback_days: input.lookback_days,
+        max_scanned: input.max_scanned,
+      });
+      try {
+        const { stripe } = profiles.resolve(input.profile);
+        const graph = await buildLinkedEntityGraph(stripe, input, linkedEntitiesLogger);
+
+        const summaryLines: string[] = [
+          `Seed charge: ${graph.seed.charge_id}`,
+          ...linkTypes
+            .filter((type) => input.link_types.includes(type))
+            .map(
+              (type) =>
+                `${type}: ${graph.seed[type] ?? 'n/a'} (${graph.sources[type] ?? 'skipped'})`
+            ),
+          `Linked charges: ${graph.linked_charge_count}${
+            graph.truncated ? ' (truncated)' : ''
+          } | linked customers: ${graph.linked_customer_count}`,
+          `Dispute exposure: ${formatCurrencyTotals(graph.exposure.disputed)} | refund exposure: ${formatCurrencyTotals(
+            graph.exposure.refunded
+          )}`,
+          ...graph.edges
+            .filter((edge) => edge.source === graph.seed.charge_id)
+            .map((edge) => `- ${edge.target} via ${edge.type}`),
+        ];
+
+        linkedEntitiesLogger.info('Linked entity graph generated', {
+          charge_id: input.charge_id,
+          linked_charges: graph.linked_charge_count,
+          linked_customers: graph.linked_customer_count,
+          truncated: graph.truncated,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: graph,
+        };
+      } catch (error) {
+        linkedEntitiesLogger.error('Linked entity tool failed', {
+          charge_id: input.charge_id,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_list_reviews',
+    {
+      title: 'Stripe Radar Open Reviews',
+      description:
+        'Lists open Radar reviews with pagination and reason filters, attaching the fraud recommendation for each review charge. Use stripe_approve_review to resolve one.',
+      inputSchema: listReviewsShape,
+    },
+    async (input: ListReviewsInput) => {
+      listReviewsLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        limit: input.limit,
+        starting_after: input.starting_after ?? null,
+        reasons: input.reasons ?? null,
+        include_recommendation: input.include_recommendation,
+      });
+      try {
+        const fetcher = openStripeFetcher(
+          profiles.resolve(input.profile),
+          null,
+          objectCache,
+          listReviewsLogger
+        );
+        const { stripe } = fetcher;
+        const created: Stripe.RangeQueryParam = {};
+        if (typeof input.created_gte === 'number') {
+          created.gte = input.created_gte;
+        }
+        if (typeof input.created_lte === 'number') {
+          created.lte = input.created_lte;
+        }
+
+        // Reason filtering happens client-side, so keep reading pages until
+        // the page is full. The cursor is the last review read, whether or not
+        // it matched, so the next call continues right after it.
+        const reasons = input.reasons ? new Set(input.reasons) : null;
+        const matching: Stripe.Review[] = [];
+        let cursor = input.starting_after ?? null;
+        let hasMore = true;
+        let fetched = 0;
+        while (hasMore && matching.length < input.limit && fetched < input.max_scanned) {
+          const params: Stripe.ReviewListParams = {
+            limit: reasons ? Math.min(100, input.max_scanned - fetched) : input.limit,
+          };
+          if (cursor) {
+            params.starting_after = cursor;
+          }
+          if (Object.keys(created).length > 0) {
+            params.created = created;
+          }
+          const page = await stripe.reviews.list(params);
+          hasMore = page.has_more;
+          for (const [index, review] of page.data.entries()) {
+            fetched += 1;
+            cursor = review.id;
+            if (!reasons || reasons.has(review.reason)) {
+              matching.push(review);
+            }
+            if (matching.length >= input.limit || fetched >= input.max_scanned) {
+              hasMore ||= index < page.data.length - 1;
+              break;
+            }
+          }
+          if (page.data.length === 0) {
+            hasMore = false;
+          }
+        }
+        listReviewsLogger.debug('Reviews fetched', {
+          fetched,
+          matching: matching.length,
+          has_more: hasMore,
+        });
+
+        const reviews = await mapWithConcurrency(matching, 4, (review) =>
+          buildReviewContext(
+            fetcher,
+            review,
+            input.include_recommendation,
+            listReviewsLogger,
+            recommendationPolicy
+          )
+        );
+
+        const result = {
+          reviews,
+          has_more: hasMore,
+          next_starting_after: hasMore ? cursor : null,
+          fetched,
+        };
+
+        const summaryLines: string[] = [
+          `Open reviews: ${reviews.length} of ${fetched} fetched${
+            hasMore ? ` (more after ${result.next_starting_after})` : ''
+          }`,
+          ...reviews.map(
+            (entry) =>
+              `${entry.review.id} | reason: ${entry.review.reason ?? 'unknown'} | charge: ${
+                entry.review.charge ?? 'n/a'
+              }${
+                entry.recommendation
+                  ? ` | ${entry.recommendation.action.toUpperCase()} - ${entry.recommendation.reason}`
+                  : ''
+              }`
+          ),
+        ];
+
+        listReviewsLogger.info('Reviews listed', {
+          returned: reviews.length,
+          has_more: hasMore,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: result as Record<string, unknown>,
+        };
+      } catch (error) {
+        listReviewsLogger.error('List reviews tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_approve_review',
+    {
+      title: 'Stripe Radar Review Approval',
+      description:
+        "Approves an open Radar review and returns the updated review with the charge recommendation. Approval is the only review action Stripe's API offers; there is no close endpoint. A review otherwise closes when its charge is refunded (stripe_create_refund) or disputed.",
+      inputSchema: approveReviewShape,
+    },
+    async (input: ApproveReviewInput) => {
+      approveReviewLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        review_id: input.review_id,
+      });
+      try {
+        const profile = profiles.resolve(input.profile);
+        const { stripe } = profile;
+        const rejection = await rejectProfileWrite(
+          profile,
+          rawRequestPolicy.readOnly,
+          auditLog,
+          {
+            tool: 'stripe_approve_review',
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.review_id],
+          },
+          input.confirm_live_account,
+          approveReviewLogger
+        );
+        if (rejection) {
+          return rejection;
+        }
+        const idempotencyKey = newIdempotencyKey();
+        const review = await auditMutation(
+          auditLog,
+          {
+            tool: 'stripe_approve_review',
+            profile: profile.name,
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.review_id],
+            idempotency_key: idempotencyKey,
+          },
+          () => stripe.reviews.approve(input.review_id, {}, { idempotencyKey }),
+          (approved) => ({
+            object_ids: [
+              ...(typeof approved.charge === 'string'
+                ? [approved.charge]
+                : approved.charge
+                  ? [approved.charge.id]
+                  : []),
+            ],
+            result: { open: approved.open, closed_reason: approved.closed_reason ?? null },
+          })
+        );
+        approveReviewLogger.info('Review approved', {
+          review_id: review.id,
+          open: review.open,
+          closed_reason: review.closed_reason ?? null,
+        });
+
+        // The approval changed the review, so skip the shared cache.
+        const context = await buildReviewContext(
+          openStripeFetcher(profile, null, null, approveReviewLogger),
+          review,
+          true,
+          approveReviewLogger,
+          recommendationPolicy
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Review ${context.review.id} approved (open: ${
+                context.review.open ? 'yes' : 'no'
+              }, closed reason: ${context.review.closed_reason ?? 'n/a'}).${
+                context.recommendation
+                  ? `\nCharge ${context.review.charge ?? 'n/a'} recommendation: ${context.recommendation.action.toUpperCase()} - ${context.recommendation.reason}`
+                  : ''
+              }`,
+            },
+          ],
+          structuredContent: context,
+        };
+      } catch (error) {
+        approveReviewLogger.error('Approve review tool failed', {
+          review_id: input.review_id,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_dispute_evidence',
+    {
+      title: 'Stripe Dispute Evidence Builder',
+      description:
+        'Drafts dispute evidence from charge, customer, and refund data, previews it as a diff against attached evidence, and optionally stages or submits it.',
+      inputSchema: disputeEvidenceShape,
+    },
+    async (input: DisputeEvidenceInput) => {
+      disputeEvidenceLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        dispute_id: input.dispute_id,
+        action: input.action,
+        override_fields: input.overrides ? Object.keys(input.overrides) : [],
+        overwrite_existing: input.overwrite_existing,
+      });
+      try {
+        const profile = profiles.resolve(input.profile);
+        const { stripe } = profile;
+        if (input.action !== 'preview') {
+          const rejection = await rejectProfileWrite(
+            profile,
+            rawRequestPolicy.readOnly,
+            auditLog,
+            {
+              tool: 'stripe_dispute_evidence',
+              account: null,
+              inputs: sanitizeAuditInputs(input, redactor),
+              object_ids: [input.dispute_id],
+            },
+            input.confirm_live_account,
+            disputeEvidenceLogger
+          );
+          if (rejection) {
+            return rejection;
+          }
+        }
+        const dispute = await stripe.disputes.retrieve(input.dispute_id, {
+          expand: ['charge', 'charge.review'],
+        });
+        const draft = await draftDisputeEvidence(
+          stripe,
+          dispute,
+          input.max_prior_charges,
+          disputeEvidenceLogger
+        );
+        const diff = diffDisputeEvidence(
+          dispute.evidence,
+          draft.evidence,
+          input.overrides ?? {},
+          input.overwrite_existing
+        );
+        const updates = Object.fromEntries(
+          diff
+            .filter((entry) => entry.change === 'add' || entry.change === 'replace')
+            .map((entry) => [entry.field, entry.proposed])
+        ) as Stripe.DisputeUpdateParams.Evidence;
+
+        let updatedDispute: Stripe.Dispute | null = null;
+        if (input.action !== 'preview') {
+          if (!disputeEvidenceEditableStatuses.has(dispute.status)) {
+            disputeEvidenceLogger.warn('Dispute no longer accepts evidence', {
+              dispute_id: dispute.id,
+              status: dispute.status,
+            });
+            throw new Error(
+              `Dispute ${dispute.id} has status ${dispute.status} and no longer accepts evidence.`
+            );
+          }
+
+          disputeEvidenceLogger.debug('Updating dispute evidence', {
+            dispute_id: dispute.id,
+            fields: Object.keys(updates),
+            submit: input.action === 'submit',
+          });
+          const idempotencyKey = newIdempotencyKey();
+          updatedDispute = await auditMutation(
+            auditLog,
+            {
+              tool: 'stripe_dispute_evidence',
+              profile: profile.name,
+              account: null,
+              inputs: sanitizeAuditInputs(input, redactor),
+              object_ids: [
+                dispute.id,
+                ...(typeof dispute.charge === 'string' ? [dispute.charge] : [dispute.charge.id]),
+              ],
+              idempotency_key: idempotencyKey,
+            },
+            () =>
+              stripe.disputes.update(
+                dispute.id,
+                { evidence: updates, submit: input.action === 'submit' },
+                { idempotencyKey }
+              ),
+            (updated) => ({
+              result: {
+                action: input.action,
+                status: updated.status,
+                fields: Object.keys(updates),
+                submission_count: updated.evidence_details.submission_count,
+              },
+            })
+          );
+          disputeEvidenceLogger.info('Dispute evidence updated', {
+            dispute_id: updatedDispute.id,
+            status: updatedDispute.status,
+            submitted: input.action === 'submit',
+            submission_count: updatedDispute.evidence_details.submission_count,
+          });
+        }
+
+        const finalDispute = updatedDispute ?? dispute;
+        const result = {
+          action: input.action,
+          applied: updatedDispute !== null,
+          submitted: input.action === 'submit' && updatedDispute !== null,
+          dispute: summarizeDispute(finalDispute),
+          evidence_details: {
+            due_by: finalDispute.evidence_details.due_by ?? null,
+            has_evidence: finalDispute.evidence_details.has_evidence,
+            past_due: finalDispute.evidence_details.past_due,
+            submission_count: finalDispute.evidence_details.submission_count,
+          },
+          sources: draft.sources,
+          diff,
+          pending_updates: updates,
+        };
+
+        const changed = diff.filter(
+          (entry) => entry.change === 'add' || entry.change === 'replace'
+        );
+        const summaryLines: string[] = [
+          `Dispute ${dispute.id} | ${dispute.amount} ${dispute.currency} | status: ${
+            finalDispute.status
+          } | reason: ${dispute.reason}`,
+          `Evidence due by: ${
+            finalDispute.evidence_details.due_by
+              ? new Date(finalDispute.evidence_details.due_by * 1000).toISOString()
+              : 'n/a'
+          }`,
+          input.action === 'preview'
+            ? `Preview only: ${changed.length} field(s) would change. Call again with action "stage" or "submit" to apply.`
+            : `${input.action === 'submit' ? 'Submitted' : 'Staged'} ${changed.length} field(s).`,
+          ...diff.map(
+            (entry) =>
+              `- ${entry.field} [${entry.change}]: ${
+                entry.current === null ? '(empty)' : JSON.stringify(entry.current)
+              } -> ${entry.proposed === null ? '(empty)' : JSON.stringify(entry.proposed)}`
+          ),
+        ];
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        disputeEvidenceLogger.error('Dispute evidence tool failed', {
+          dispute_id: input.dispute_id,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_list_value_lists',
+    {
+      title: 'Stripe Radar Value Lists',
+      description:
+        'Lists Radar value lists (block and allow lists) with their item types and aliases.',
+      inputSchema: listValueListsShape,
+    },
+    async (input: ListValueListsInput) => {
+      valueListsLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        alias: input.alias ?? null,
+        has_contains: Boolean(input.contains),
+        limit: input.limit,
+        starting_after: input.starting_after ?? null,
+      });
+      try {
+        const { stripe } = profiles.resolve(input.profile);
+        const params: Stripe.Radar.ValueListListParams = { limit: input.limit };
+        if (input.alias) {
+          params.alias = input.alias;
+        }
+        if (input.contains) {
+          params.contains = input.contains;
+        }
+        if (input.starting_after) {
+          params.starting_after = input.starting_after;
+        }
+
+        const page = await stripe.radar.valueLists.list(params);
+        const valueLists = page.data.map(summarizeValueList);
+        valueListsLogger.info('Value lists fetched', {
+          count: valueLists.length,
+          has_more: page.has_more,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Value lists: ${valueLists.length}${page.has_more ? ' (more available)' : ''}`,
+                ...valueLists.map(
+                  (list) => `${list.id} | ${list.alias} | ${list.name} | type: ${list.item_type}`
+                ),
+              ].join('\n'),
+            },
+          ],
+          structuredContent: {
+            value_lists: valueLists,
+            has_more: page.has_more,
+            next_starting_after: page.has_more
+              ? (valueLists[valueLists.length - 1]?.id ?? null)
+              : null,
+          },
+        };
+      } catch (error) {
+        valueListsLogger.error('List value lists tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_search_value_list_items',
+    {
+      title: 'Stripe Radar Value List Items',
+      description:
+        'Lists the items in a Radar value list, optionally searching for an exact value.',
+      inputSchema: searchValueListItemsShape,
+    },
+    async (input: SearchValueListItemsInput) => {
+      valueListItemsLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        value_list: input.value_list,
+        has_value: Boolean(input.value),
+        limit: input.limit,
+        starting_after: input.starting_after ?? null,
+      });
+      try {
+        const { stripe } = profiles.resolve(input.profile);
+        const params: Stripe.Radar.ValueListItemListParams = {
+          value_list: input.value_list,
+          limit: input.limit,
+        };
+        if (input.value) {
+          params.value = input.value;
+        }
+        if (input.starting_after) {
+          params.starting_after = input.starting_after;
+        }
+
+        const page = await stripe.radar.valueListItems.list(params);
+        const items = page.data.map(summarizeValueListItem);
+        valueListItemsLogger.info('Value list items fetched', {
+          value_list: input.value_list,
+          count: items.length,
+          has_more: page.has_more,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                input.value
+                  ? `${items.length > 0 ? 'Found' : 'Did not find'} ${input.value} in ${input.value_list}`
+                  : `Items in ${input.value_list}: ${items.length}${page.has_more ? ' (more available)' : ''}`,
+                ...items.map((item) => `${item.id} | ${item.value} | created by ${item.created_by}`),
+              ].join('\n'),
+            },
+          ],
+          structuredContent: {
+            items,
+            has_more: page.has_more,
+            next_starting_after: page.has_more
+              ? (items[items.length - 1]?.id ?? null)
+              : null,
+          },
+        };
+      } catch (error) {
+        valueListItemsLogger.error('Search value list items tool failed', {
+          value_list: input.value_list,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_add_value_list_item',
+    {
+      title: 'Stripe Radar Value List Add',
+      description:
+        'Adds a value (card fingerprint, email, IP address, etc.) to a Radar value list.',
+      inputSchema: addValueListItemShape,
+    },
+    async (input: AddValueListItemInput) => {
+      addValueListItemLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        value_list: input.value_list,
+      });
+      try {
+        const profile = profiles.resolve(input.profile);
+        const { stripe } = profile;
+        const rejection = await rejectProfileWrite(
+          profile,
+          rawRequestPolicy.readOnly,
+          auditLog,
+          {
+            tool: 'stripe_add_value_list_item',
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.value_list],
+          },
+          input.confirm_live_account,
+          addValueListItemLogger
+        );
+        if (rejection) {
+          return rejection;
+        }
+        const idempotencyKey = newIdempotencyKey();
+        const item = await auditMutation(
+          auditLog,
+          {
+            tool: 'stripe_add_value_list_item',
+            profile: profile.name,
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.value_list],
+            idempotency_key: idempotencyKey,
+          },
+          () =>
+            stripe.radar.valueListItems.create(
+              { value_list: input.value_list, value: input.value },
+              { idempotencyKey }
+            ),
+          (created) => ({
+            object_ids: [created.id],
+            result: { item_id: created.id, value_list: created.value_list, value: created.value },
+          })
+        );
+        const summary = summarizeValueListItem(item);
+        addValueListItemLogger.info('Value list item created', {
+          item_id: summary.id,
+          value_list: summary.value_list,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Added ${summary.value} to ${summary.value_list} as ${summary.id}.`,
+            },
+          ],
+          structuredContent: { item: summary },
+        };
+      } catch (error) {
+        addValueListItemLogger.error('Add value list item tool failed', {
+          value_list: input.value_list,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_remove_value_list_item',
+    {
+      title: 'Stripe Radar Value List Remove',
+      description: 'Removes an item from a Radar value list.',
+      inputSchema: removeValueListItemShape,
+    },
+    async (input: RemoveValueListItemInput) => {
+      removeValueListItemLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        item_id: input.item_id,
+      });
+      try {
+        const profile = profiles.resolve(input.profile);
+        const { stripe } = profile;
+        const rejection = await rejectProfileWrite(
+          profile,
+          rawRequestPolicy.readOnly,
+          auditLog,
+          {
+            tool: 'stripe_remove_value_list_item',
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.item_id],
+          },
+          input.confirm_live_account,
+          removeValueListItemLogger
+        );
+        if (rejection) {
+          return rejection;
+        }
+        const deleted = await auditMutation(
+          auditLog,
+          {
+            tool: 'stripe_remove_value_list_item',
+            profile: profile.name,
+            account: null,
+            inputs: sanitizeAuditInputs(input, redactor),
+            object_ids: [input.item_id],
+            idempotency_key: null,
+          },
+          () => stripe.radar.valueListItems.del(input.item_id),
+          (removed) => ({ result: { item_id: removed.id, deleted: removed.deleted } })
+        );
+        removeValueListItemLogger.info('Value list item removed', {
+          item_id: deleted.id,
+          deleted: deleted.deleted,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Removed value list item ${deleted.id}.`,
+            },
+          ],
+          structuredContent: { id: deleted.id, deleted: deleted.deleted },
+        };
+      } catch (error) {
+        removeValueListItemLogger.error('Remove value list item tool failed', {
+          item_id: input.item_id,
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_blocklist_proposal',
+    {
+      title: 'Stripe Radar Blocklist Proposal',
+      description:
+        'Runs fraud insight on a payment, extracts its card fingerprint, email, and IP address, and proposes which value lists to add them to. Does not modify any list.',
+      inputSchema: blocklistProposalShape,
+    },
+    async (input: BlocklistProposalInput) => {
+      blocklistProposalLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        has_payment_intent: Boolean(input.payment_intent_id),
+        has_charge: Boolean(input.charge_id),
+        item_types: input.item_types,
+        value_list_ids: input.value_list_ids ?? null,
+      });
+      try {
+        const fetcher = openStripeFetcher(
+          profiles.resolve(input.profile),
+          null,
+          objectCache,
+          blocklistProposalLogger
+        );
+        const { stripe } = fetcher;
+        if (!input.payment_intent_id && !input.charge_id) {
+          blocklistProposalLogger.warn('Missing identifiers for blocklist proposal');
+          throw new Error(
+            'You must provide either payment_intent_id or charge_id to propose blocklist items.'
+          );
+        }
+
+        const insight = await buildFraudInsight(
+          fetcher,
+          {
+            ...(input.payment_intent_id ? { payment_intent_id: input.payment_intent_id } : {}),
+            ...(input.charge_id ? { charge_id: input.charge_id } : {}),
+            include_events: true,
+          },
+          blocklistProposalLogger,
+          recommendationPolicy
+        );
+        const proposal = await buildBlocklistProposal(
+          stripe,
+          insight,
+          input,
+          blocklistProposalLogger
+        );
+
+        const summaryLines: string[] = [
+          `Charge: ${insight.charge?.id ?? 'n/a'} | recommendation: ${insight.recommendation.action.toUpperCase()} - ${
+            insight.recommendation.reason
+          }`,
+          ...proposal.candidates.map(
+            (candidate) =>
+              `${candidate.item_type}: ${candidate.value} -> ${
+                candidate.target_lists.length > 0
+                  ? candidate.target_lists
+                      .map(
+                        (list) =>
+                          `${list.alias} (${list.id})${list.already_listed ? ' [already listed]' : ''}`
+                      )
+                      .join(', ')
+                  : 'no matching value list'
+              }`
+          ),
+          ...proposal.missing.map((itemType) => `${itemType}: not available on this charge`),
+          'Use stripe_add_value_list_item to block any proposed value.',
+        ];
+
+        blocklistProposalLogger.info('Blocklist proposal generated', {
+          charge_id: insight.charge?.id ?? null,
+          candidates: proposal.candidates.length,
+          missing: proposal.missing,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: {
+            charge_id: insight.charge?.id ?? null,
+            payment_intent_id: insight.paymentIntent?.id ?? null,
+            recommendation: insight.recommendation,
+            ...proposal,
+          },
+        };
+      } catch (error) {
+        blocklistProposalLogger.error('Blocklist proposal tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_recent_events',
+    {
+      title: 'Stripe Recent Webhook Events',
+      description:
+        'Queries events received by the webhook receiver, newest first, filtered by type and object ID. Only events delivered since the server started are available.',
+      inputSchema: recentEventsShape,
+    },
+    async (input: RecentEventsInput) => {
+      recentEventsLogger.info('Invocation received', {
+        types: input.types ?? null,
+        object_id: input.object_id ?? null,
+        created_gte: input.created_gte ?? null,
+        limit: input.limit,
+      });
+      try {
+        if (!webhookReceiver) {
+          throw new Error(
+            'The webhook receiver is not enabled. Configure webhooks.signing_secret to receive Stripe events.'
+          );
+        }
+
+        const events = webhookReceiver.store.query({
+          limit: input.limit,
+          ...(input.types ? { types: input.types } : {}),
+          ...(input.object_id ? { objectId: input.object_id } : {}),
+          ...(input.created_gte !== undefined ? { createdGte: input.created_gte } : {}),
+        });
+        const receiver = webhookReceiver.status();
+
+        const summaryLines: string[] = [
+          `Webhook receiver: ${describeWebhookReceiverSummary(webhookReceiver)}`,
+          `Matching events: ${events.length}`,
+          ...events.map(
+            (event) =>
+              `${new Date(event.created * 1000).toISOString()} ${event.type} ${
+                event.object_id ?? 'n/a'
+              } (${event.id})`
+          ),
+        ];
+
+        recentEventsLogger.info('Recent events returned', {
+          count: events.length,
+          stored: receiver.stored,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: {
+            receiver,
+            count: events.length,
+            events: input.include_objects
+              ? events
+              : events.map(({ object: _object, ...event }) => event),
+          },
+        };
+      } catch (error) {
+        recentEventsLogger.error('Recent events tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+
+  registerTool(
+    'stripe_audit_log',
+    {
+      title: 'Stripe MCP Audit Log',
+      description:
+        'Queries the hash-chained audit trail of mutating tool calls by time range, tool, object ID, or outcome, and verifies that the chain has not been tampered with.',
+      inputSchema: auditLogShape,
+    },
+    async (input: AuditLogInput) => {
+      auditLogLogger.info('Invocation received', {
+        profile: input.profile ?? null,
+        created_gte: input.created_gte ?? null,
+        created_lte: input.created_lte ?? null,
+        tool: input.tool ?? null,
+        object_id: input.object_id ?? null,
+        outcome: input.outcome ?? null,
+        limit: input.limit,
+        verify: input.verify,
+      });
+      try {
+        if (!auditLog) {
+          throw new Error(
+            'The audit log is disabled. Set audit_log.enabled to true to record mutating tool calls.'
+          );
+        }
+
+        const [result, verification] = await Promise.all([
+          auditLog.query({
+            limit: input.limit,
+            ...(input.created_gte !== undefined ? { createdGte: input.created_gte } : {}),
+            ...(input.created_lte !== undefined ? { createdLte: input.created_lte } : {}),
+            ...(input.tool ? { tool: input.tool } : {}),
+            ...(input.profile ? { profile: input.profile } : {}),
+            ...(input.object_id ? { objectId: input.object_id } : {}),
+            ...(input.outcome ? { outcome: input.outcome } : {}),
+          }),
+          input.verify ? auditLog.verify() : Promise.resolve(null),
+        ]);
+
+        if (verification && !verification.valid) {
+          auditLogLogger.warn('Audit log chain verification failed', {
+            path: auditLog.path,
+            first_invalid_seq: verification.first_invalid_seq,
+            problem: verification.problem,
+          });
+        }
+
+        const summaryLines: string[] = [
+          `Audit log: ${auditLog.path}`,
+          verification
+            ? verification.valid
+              ? `Chain verified: ${verification.entries} entries intact.`
+              : `Chain BROKEN at entry ${verification.first_invalid_seq ?? 'n/a'}: ${verification.problem}`
+            : 'Chain not verified.',
+          `Matching entries: ${result.entries.length}${result.truncated ? ' (truncated at limit)' : ''}`,
+          ...result.entries.map(
+            (entry) =>
+              `#${entry.seq} ${entry.timestamp} ${entry.tool} ${entry.outcome} | ${
+                entry.object_ids.join(', ') || 'no objects'
+              } | request: ${entry.stripe_request_id ?? 'n/a'}${entry.error ? ` | ${entry.error}` : ''}`
+          ),
+        ];
+
+        auditLogLogger.info('Audit log queried', {
+          scanned: result.scanned,
+          returned: result.entries.length,
+          chain_valid: verification?.valid ?? null,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: summaryLines.join('\n'),
+            },
+          ],
+          structuredContent: {
+            path: auditLog.path,
+            verification,
+            scanned: result.scanned,
+            truncated: result.truncated,
+            count: result.entries.length,
+            entries: result.entries,
+          },
+        };
+      } catch (error) {
+        auditLogLogger.error('Audit log tool failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        throw error;
+      }
+    }
+  );
+}
+
+/**
+ * Runs a Stripe mutation and appends its outcome to the audit log, taking
+ * the request ID from the response or error. POST mutations pass the
+ * idempotency key they send, so failed attempts are audited with it too;
+ * DELETEs pass null.
+ */
+async function auditMutation<T>(
+  auditLog: AuditLog | null,
+  context: Pick<
+    AuditRecord,
+    'tool' | 'profile' | 'account' | 'inputs' | 'object_ids' | 'idempotency_key'
+  >,
+  mutate: () => Promise<T>,
+  describe: (value: T) => { object_ids?: string[]; result: Record<string, unknown> }
+): Promise<T> {
+  if (!auditLog) {
+    return mutate();
+  }
+
+  const { idempotency_key: idempotencyKey, ...base } = context;
+  let value: T;
+  try {
+    value = await mutate();
+  } catch (error) {
+    await auditLog.record({
+      ...base,
+      outcome: 'failed',
+      stripe_request_id: stripeRequestId(error),
+      idempotency_key: idempotencyKey,
+      result: null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  const described = describe(value);
+  const lastResponse = (value as { lastResponse?: Stripe.Response<unknown>['lastResponse'] })
+    .lastResponse;
+  await auditLog.record({
+    ...base,
+    object_ids: [...new Set([...base.object_ids, ...(described.object_ids ?? [])])],
+    outcome: 'succeeded',
+    stripe_request_id: lastResponse?.requestId ?? null,
+    idempotency_key: lastResponse?.idempotencyKey ?? idempotencyKey,
+    result: described.result,
+    error: null,
+  });
+  return value;
+}
+
+/**
+ * Starts the fetches of one tool call on a profile and connected account.
+ * Pass a null cache to bypass the shared cache, e.g. right after a write.
+ */
+function openStripeFetcher(
+  profile: StripeProfile,
+  stripeAccount: string | null,
+  cache: StripeObjectCache | null,
+  logger: Logger
+): StripeFetcher {
+  return new StripeFetcher(
+    profile.forAccount(stripeAccount),
+    `${profile.name}:${stripeAccount ?? 'platform'}`,
+    cache,
+    logger.child('fetch')
+  );
+}
+
+/**
+ * Probes one profile with accounts.retrieve. Failures are reported rather
+ * than thrown so one broken key does not hide the others.
+ */
+async function probeStripeProfile(
+  profiles: StripeProfiles,
+  profile: StripeProfile,
+  readOnly: boolean,
+  accountOverride: string | null,
+  logger: Logger
+): Promise<ProfileProbe> {
+  const stripeAccount = accountOverride ?? profile.defaultStripeAccount;
+  try {
+    const { account: platform, mode } = await profile.identify(true);
+    const account = stripeAccount
+      ? await profile.stripe.accounts.retrieve(undefined, { stripeAccount })
+      : platform;
+    if (profile.keyMode !== 'unknown' && profile.keyMode !== mode) {
+      logger.warn('Key prefix and account disagree on mode', {
+        profile: profile.name,
+        key_mode: profile.keyMode,
+        account_mode: mode,
+      });
+    }
+    logger.info('Status probe succeeded', {
+      profile: profile.name,
+      mode,
+      account_id: account.id,
+      charges_enabled: account.charges_enabled,
+      payouts_enabled: account.payouts_enabled,
+    });
+    return {
+      ...profiles.describe(profile),
+      status: 'ok',
+      mode,
+      writes: profileWriteStatus(profile, readOnly, mode),
+      platform_account_id: platform.id,
+      stripe_account_used: stripeAccount,
+      account: {
+        id: account.id,
+        type: account.type,
+        charges_enabled: account.charges_enabled,
+        payouts_enabled: account.payouts_enabled,
+        details_submitted: account.details_submitted,
+        email: account.email ?? null,
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error('Status probe failed', {
+      profile: profile.name,
+      stripe_account: stripeAccount,
+      error_message: error instanceof Error ? error.message : String(error),
+      error_stack: error instanceof Error ? error.stack : undefined,
+    });
+    const mode = profile.keyMode === 'unknown' ? null : profile.keyMode;
+    return {
+      ...profiles.describe(profile),
+      status: 'error',
+      mode,
+      writes: profileWriteStatus(profile, readOnly, mode ?? 'live'),
+      platform_account_id: null,
+      stripe_account_used: stripeAccount,
+      account: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function profileWriteStatus(
+  profile: StripeProfile,
+  readOnly: boolean,
+  mode: StripeMode
+): ProfileProbe['writes'] {
+  if (readOnly || profile.readOnly) {
+    return 'read_only';
+  }
+  if (mode === 'test') {
+    return 'allowed';
+  }
+  return profile.allowLiveWrites ? 'live_confirmation_required' : 'live_disabled';
+}
+
+const profileWriteDescriptions: Record<ProfileProbe['writes'], string> = {
+  allowed: 'writes allowed',
+  read_only: 'read-only',
+  live_disabled: 'writes BLOCKED (allow_live_writes is off)',
+  live_confirmation_required: 'writes need confirm_live_account',
+};
+
+function describeProfileProbe(probe: ProfileProbe): string {
+  const label = `Profile ${probe.name}${probe.default ? ' (default)' : ''}: ${
+    probe.mode === 'live' ? 'LIVE MODE' : probe.mode === 'test' ? 'test mode' : 'mode unknown'
+  } | ${profileWriteDescriptions[probe.writes]}`;
+  if (!probe.account) {
+    return `${label} | error - ${probe.error ?? 'unknown error'}`;
+  }
+  return `${label} | platform ${probe.platform_account_id ?? 'n/a'}${
+    probe.stripe_account_used ? ` | account checked ${probe.account.id}` : ''
+  } | charges ${probe.account.charges_enabled ? 'enabled' : 'disabled'} | payouts ${
+    probe.account.payouts_enabled ? 'enabled' : 'disabled'
+  } | API version ${probe.stripe_api_version ?? 'account_default'}`;
+}
+
+/**
+ * Returns an error result when the profile may not change Stripe state, and
+ * audits the attempt like any other blocked mutation.
+ */
+async function rejectProfileWrite(
+  profile: StripeProfile,
+  readOnly: boolean,
+  auditLog: AuditLog | null,
+  context: Pick<AuditRecord, 'tool' | 'account' | 'inputs' | 'object_ids'>,
+  confirmLiveAccount: string | undefined,
+  logger: Logger
+): Promise<CallToolResult | null> {
+  const violation = await profileWriteViolation(profile, readOnly, context, confirmLiveAccount);
+  if (!violation) {
+    return null;
+  }
+  logger.warn('Write blocked by profile', {
+    profile: profile.name,
+    tool: context.tool,
+    rule: violation.rule,
+  });
+  await auditLog?.record({
+    ...context,
+    profile: profile.name,
+    outcome: 'blocked',
+    stripe_request_id: null,
+    idempotency_key: null,
+    result: null,
+    error: `${violation.rule}: ${violation.message}`,
+  });
+  return {
+    content: [{ type: 'text', text: violation.message }],
+    structuredContent: {
+      blocked: true,
+      profile: profile.name,
+      mode: violation.mode,
+      rule: violation.rule,
+      message: violation.message,
+    },
+    isError: true,
+  };
+}
+
+/**
+ * Server-wide read-only mode and read-only profiles block every write.
+ * Live mode is taken from the key prefix, confirmed against the account the
+ * key belongs to. A live write must be enabled with allow_live_writes and
+ * must name the account it runs on: the connected account when the call
+ * targets one, otherwise the platform account.
+ */
+async function profileWriteViolation(
+  profile: StripeProfile,
+  readOnly: boolean,
+  context: Pick<AuditRecord, 'tool' | 'account'>,
+  confirmLiveAccount: string | undefined
+): Promise<{ rule: string; message: string; mode: StripeMode | null } | null> {
+  if (readOnly) {
+    return {
+      rule: 'read_only',
+      message: `Read-only mode is enabled (raw_request_policy.read_only), so ${context.tool} cannot change Stripe state.`,
+      mode: profile.keyMode === 'unknown' ? null : profile.keyMode,
+    };
+  }
+  if (profile.readOnly) {
+    return {
+      rule: 'read_only_profile',
+      message: `Profile "${profile.name}" is read-only, so ${context.tool} cannot change Stripe state with it.`,
+      mode: profile.keyMode === 'unknown' ? null : profile.keyMode,
+    };
+  }
+  if (profile.keyMode === 'test') {
+    return null;
+  }
+  const { account: platform, mode } = await profile.identify();
+  if (mode === 'test') {
+    return null;
+  }
+  if (!profile.allowLiveWrites) {
+    return {
+      rule: 'live_writes_disabled',
+      message: `Profile "${profile.name}" uses a live-mode key and allow_live_writes is not set, so ${context.tool} cannot change Stripe state with it.`,
+      mode,
+    };
+  }
+  const expected = context.account ?? platform.id;
+  if (confirmLiveAccount !== expected) {
+    return {
+      rule: 'live_account_not_confirmed',
+      message: confirmLiveAccount
+        ? `confirm_live_account ${confirmLiveAccount} is not the account ${context.tool} would change in live mode.`
+        : `Profile "${profile.name}" is in live mode. Repeat the ID of the ${
+            context.account ? 'connected account in stripe_account' : 'platform account shown by stripe_status'
+          } in confirm_live_account to let ${context.tool} change live data.`,
+      mode,
+    };
+  }
+  return null;
+}
+
+function stripeRequestId(error: unknown): string | null {
+  return error instanceof Stripe.errors.StripeError ? (error.requestId ?? null) : null;
+}
+
+function refundObjectIds(chargeId: string, params: Stripe.RefundCreateParams): string[] {
+  return [
+    ...new Set([chargeId, params.charge, params.payment_intent].filter(
+      (id): id is string => typeof id === 'string'
+    )),
+  ];
+}
+
+function objectIdsInPath(path: string): string[] {
+  return (path.split('?')[0] ?? '')
+    .split('/')
+    .filter((segment) => /^[a-z]{2,}(?:_[a-z]+)*_(?=[A-Za-z0-9]*[0-9A-Z])[A-Za-z0-9]{6,}$/.test(segment));
+}
+
+/**
+ * Registers a tool whose results report the Stripe requests made during the
+ * call as stripe_requests and, when redaction.tool_output is on, are masked
+ * before they reach the client. A thrown error becomes an isError result
+ * that goes through the same steps.
+ */
+function createToolRegistrar(server: McpServer, redactor: Redactor) {
+  return <Shape extends ZodRawShape>(
+    name: string,
+    config: { title: string; description: string; inputSchema: Shape },
+    callback: (input: z.objectOutputType<Shape, ZodTypeAny>) => Promise<CallToolResult>
+  ) => {
+    // The SDK validates arguments against the widened shape; parsing them
+    // again with the tool's own schema gives the callback its typed input.
+    const inputSchema: ZodRawShape = config.inputSchema;
+    const schema = z.object(config.inputSchema);
+    return server.registerTool(name, { ...config, inputSchema }, async (args) => {
+      const stats = emptyStripeRequestStats();
+      let result: CallToolResult;
+      try {
+        result = await trackStripeRequests(stats, () => callback(schema.parse(args)));
+      } catch (error) {
+        // Handlers log and rethrow; answer here so the message is masked like
+        // any other result instead of being passed through by the SDK.
+        const message = error instanceof Error ? error.message : String(error);
+        result = {
+          content: [{ type: 'text', text: message }],
+          structuredContent: { error: message },
+          isError: true,
+        };
+      }
+      const counted =
+        result.structuredContent && stats.requests > 0
+          ? { ...result, structuredContent: { ...result.structuredContent, stripe_requests: stats } }
+          : result;
+      return redactor.config.tool_output ? redactToolResult(redactor, counted) : counted;
+    });
+  };
+}
+
+function redactToolResult(redactor: Redactor, result: CallToolResult): CallToolResult {
+  return {
+    ...result,
+    content: result.content.map((item) =>
+      item.type === 'text' ? { ...item, text: redactor.redactText(item.text) } : item
+    ),
+    ...(result.structuredContent
+      ? { structuredContent: redactor.redactValue(result.structuredContent) }
+      : {}),
+  };
+}
+
+function forwardWebhookNotifications({
+  server,
+  receiver,
+  logger,
+}: {
+  server: McpServer;
+  receiver: WebhookReceiver;
+  logger: Logger;
+}) {
+  const notificationsLogger = logger.child('webhook_notifications');
+  const unsubscribe = receiver.subscribe((event) => {
+    if (!receiver.config.notify_event_types.some((pattern) => matchesEventType(pattern, event.type))) {
+      return;
+    }
+    if (!server.isConnected()) {
+      return;
+    }
+
+    server
+      .sendLoggingMessage({
+        level: 'warning',
+        logger: 'stripe-webhooks',
+        data: {
+          message: describeWebhookEvent(event),
+          event_id: event.id,
+          type: event.type,
+          object_id: event.object_id,
+          related_ids: event.related_ids,
+          account: event.account,
+          livemode: event.livemode,
+          created: event.created,
+        },
+      })
+      .catch((error: unknown) => {
+        notificationsLogger.debug('Client did not accept webhook notification', {
+          event_id: event.id,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      });
+    if (event.type.startsWith('charge.dispute.')) {
+      server.sendResourceListChanged();
+    }
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+}
+
+function describeWebhookEvent(event: StoredWebhookEvent): string {
+  const object = event.object;
+  const charge = typeof object.charge === 'string' ? object.charge : 'unknown charge';
+  if (event.type === 'radar.early_fraud_warning.created') {
+    return `New early fraud warning ${event.object_id ?? ''} on ${charge} (fraud type: ${
+      typeof object.fraud_type === 'string' ? object.fraud_type : 'n/a'
+    }, actionable: ${object.actionable === true ? 'yes' : 'no'}).`;
+  }
+  if (event.type === 'charge.dispute.created') {
+    return `New dispute ${event.object_id ?? ''} on ${charge}: ${String(object.amount ?? 'n/a')} ${String(
+      object.currency ?? ''
+    )} (reason: ${typeof object.reason === 'string' ? object.reason : 'n/a'}).`;
+  }
+  return `Stripe event ${event.type} for ${event.object_id ?? 'n/a'}.`;
+}
+
+function describeWebhookReceiverSummary(receiver: WebhookReceiver | null): string {
+  if (!receiver) {
+    return 'disabled';
+  }
+  const status = receiver.status();
+  return `${status.listening ? 'listening' : 'not listening'} on ${status.host}:${status.port}${
+    status.path
+  } | ${status.stored}/${status.capacity} events stored | ${status.rejected} rejected`;
+}
+
+const fraudChargeExpand = [
+  'outcome',
+  'review',
+  'payment_intent',
+  'payment_method_details',
+  'refunds',
+];
+
+const fraudPaymentIntentExpand = [
+  'latest_charge',
+  'latest_charge.outcome',
+  'latest_charge.review',
+  'latest_charge.payment_method_details',
+  'latest_charge.refunds',
+];
+
+function fetchFraudCharge(fetcher: StripeFetcher, chargeId: string): Promise<Stripe.Charge> {
+  return fetcher
+    .fetch('charge', chargeId, (stripe) =>
+      stripe.charges.retrieve(chargeId, { expand: fraudChargeExpand })
+    )
+    .then((charge) => {
+      if (charge.payment_intent && typeof charge.payment_intent === 'object') {
+        fetcher.prime('payment_intent', charge.payment_intent.id, charge.payment_intent);
+      }
+      return charge;
+    });
+}
+
+function fetchFraudPaymentIntent(
+  fetcher: StripeFetcher,
+  paymentIntentId: string
+): Promise<Stripe.PaymentIntent> {
+  return fetcher
+    .fetch('payment_intent', paymentIntentId, (stripe) =>
+      stripe.paymentIntents.retrieve(paymentIntentId, { expand: fraudPaymentIntentExpand })
+    )
+    .then((paymentIntent) => {
+      if (paymentIntent.latest_charge && typeof paymentIntent.latest_charge === 'object') {
+        fetcher.prime('charge', paymentIntent.latest_charge.id, paymentIntent.latest_charge);
+      }
+      return paymentIntent;
+    });
+}
+
+/**
+ * Fetches in two rounds: the requested PaymentIntent and charge together,
+ * then everything keyed by the charge at once. Objects that arrive expanded
+ * are reused instead of being fetched again by ID. Velocity, when requested,
+ * is analysed alongside the second round and passed to the policy.
+ */
+async function buildFraudInsight(
+  fetcher: StripeFetcher,
+  input: FraudInsightInput,
+  logger: Logger,
+  policy: RecommendationPolicy,
+  velocityConfig: VelocityConfig | null = null
+): Promise<FraudInsightResult> {
+  logger.debug('Building fraud insight', {
+    payment_intent_id: input.payment_intent_id ?? null,
+    charge_id: input.charge_id ?? null,
+    include_events: input.include_events,
+  });
+  const result: FraudInsightResult = {
+    recommendation: {
+      action: 'monitor',
+      reason: 'Baseline recommendation before risk analysis.',
+      rule: null,
+    },
+  };
+
+  let [paymentIntent, charge] = await Promise.all([
+    input.payment_intent_id
+      ? fetchFraudPaymentIntent(fetcher, input.payment_intent_id)
+      : Promise.resolve(null),
+    input.charge_id ? fetchFraudCharge(fetcher, input.charge_id) : Promise.resolve(null),
+  ]);
+
+  if (paymentIntent) {
+    logger.debug('PaymentIntent retrieved', {
+      payment_intent_id: paymentIntent.id,
+      latest_charge_type: typeof paymentIntent.latest_charge,
+      status: paymentIntent.status,
+    });
+    if (!charge && paymentIntent.latest_charge) {
+      charge =
+        typeof paymentIntent.latest_charge === 'object'
+          ? paymentIntent.latest_charge
+          : await fetchFraudCharge(fetcher, paymentIntent.latest_charge);
+    }
+  }
+
+  if (charge && input.charge_id) {
+    logger.debug('Charge retrieved', {
+      charge_id: charge.id,
+      outcome_present: Boolean(charge.outcome),
+    });
+  }
+
+  if (!charge && paymentIntent) {
+    const paymentIntentId = paymentIntent.id;
+    const chargeList = await fetcher.fetch('payment_intent_charges', paymentIntentId, (stripe) =>
+      stripe.charges.list({
+        payment_intent: paymentIntentId,
+        limit: 1,
+        expand: ['data.outcome', 'data.review', 'data.payment_method_details'],
+      })
+    );
+    charge = chargeList.data[0] ?? null;
+    if (charge) {
+      logger.debug('Charge inferred from PaymentIntent charges list', {
+        charge_id: charge.id,
+      });
+    } else {
+      logger.warn('No charge found for payment intent', {
+        payment_intent_id: paymentIntent.id,
+      });
+    }
+  }
+
+  if (charge) {
+    const chargeId = charge.id;
+    const linkedPaymentIntent = charge.payment_intent;
+    const linkedReview = charge.review;
+    const embeddedRefunds =
+      typeof charge.refunds === 'object' && charge.refunds?.data ? charge.refunds.data : null;
+    const velocity =
+      input.include_velocity && velocityConfig
+        ? analyzeChargeVelocity(fetcher.stripe, charge, velocityConfig, logger)
+        : Promise.resolve(null);
+
+    const [chargePaymentIntent, earlyFraudWarnings, review, disputeData, refundData] =
+      await Promise.all([
+        paymentIntent || !linkedPaymentIntent
+          ? Promise.resolve(paymentIntent)
+          : typeof linkedPaymentIntent === 'object'
+          ? Promise.resolve(linkedPaymentIntent)
+          : fetchFraudPaymentIntent(fetcher, linkedPaymentIntent),
+        fetcher.fetch('early_fraud_warnings', chargeId, (stripe) =>
+          stripe.radar.earlyFraudWarnings.list({ charge: chargeId })
+        ),
+        typeof linkedReview === 'string'
+          ? fetcher.fetch('review', linkedReview, (stripe) => stripe.reviews.retrieve(linkedReview))
+          : Promise.resolve(linkedReview),
+        input.include_events
+          ? fetcher
+              .fetch('disputes', chargeId, (stripe) =>
+                stripe.disputes.list({ charge: chargeId, limit: 100 })
+              )
+              .then((list) => list.data)
+          : Promise.resolve([]),
+        embeddedRefunds
+          ? Promise.resolve(embeddedRefunds)
+          : input.include_events
+          ? fetcher
+              .fetch('refunds', chargeId, (stripe) =>
+                stripe.refunds.list({ charge: chargeId, limit: 100 })
+              )
+              .then((list) => list.data)
+          : Promise.resolve([]),
+      ]);
+
+    paymentIntent = chargePaymentIntent;
+    if (paymentIntent) {
+      result.paymentIntent = summarizePaymentIntent(paymentIntent);
+    }
+    result.charge = summarizeCharge(charge);
+    const reviews: ReviewSummary[] = review ? [summarizeReview(review)] : [];
+
+    logger.debug('Radar context collected', {
+      charge_id: charge.id,
+      early_fraud_warning_count: earlyFraudWarnings.data.length,
+      review_count: reviews.length,
+      dispute_count: disputeData.length,
+      refund_count: refundData.length,
+    });
+
+    result.radar = {
+      early_fraud_warnings: earlyFraudWarnings.data.map(
+        summarizeEarlyFraudWarning
+      ),
+      reviews,
+      disputes: disputeData.map(summarizeDispute),
+      refunds: refundData.map(summarizeRefund),
+      risk_level: charge.outcome?.risk_level ?? null,
+      risk_score: charge.outcome?.risk_score ?? null,
+      outcome_type: charge.outcome?.type ?? null,
+      seller_message: charge.outcome?.seller_message ?? null,
+    };
+
+    const chargeVelocity = await velocity;
+    if (chargeVelocity) {
+      result.velocity = chargeVelocity;
+    }
+    result.recommendation = deriveRecommendation(policy, {
+      charge,
+      earlyFraudWarnings: earlyFraudWarnings.data,
+      disputes: disputeData,
+      ...(chargeVelocity ? { velocityFlagged: chargeVelocity.flagged } : {}),
+    });
+    if (chargeVelocity?.flagged) {
+      const flags = describeVelocityFlags(chargeVelocity.entities);
+      result.recommendation.reason = `${result.recommendation.reason} Velocity: ${flags.join('; ')}.`;
+    }
+    logger.debug('Recommendation policy evaluated', {
+      charge_id: charge.id,
+      action: result.recommendation.action,
+      rule: result.recommendation.rule,
+    });
+  } else {
+    if (paymentIntent) {
+      result.paymentIntent = summarizePaymentIntent(paymentIntent);
+    }
+    result.recommendation = {
+      action: 'manual_review',
+      reason:
+        'No charge details available. Review manually before taking action.',
+      rule: null,
+    };
+    logger.warn('No charge details available for fraud insight', {
+      payment_intent_id: paymentIntent?.id ?? null,
+      charge_id: input.charge_id ?? null,
+    });
+  }
+
+  return result;
+}
+
+async function loadRefundContext(
+  stripe: Stripe,
+  params: Stripe.RefundCreateParams,
+  guardrails: RefundGuardrails,
+  logger: Logger,
+  ledger?: DailyRefundLedger
+): Promise<RefundContext> {
+  let charge: Stripe.Charge | null = null;
+  if (params.charge) {
+    charge = await stripe.charges.retrieve(params.charge);
+  } else if (params.payment_intent) {
+    const paymentIntent = await stripe.paymentIntents.retrieve(params.payment_intent, {
+      expand: ['latest_charge'],
+    });
+    charge =
+      paymentIntent.latest_charge && typeof paymentIntent.latest_charge === 'object'
+        ? paymentIntent.latest_charge
+        : null;
+  }
+  if (!charge) {
+    throw new Error('Unable to resolve a charge to refund for the supplied identifiers.');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const existingRefunds = (
+    await stripe.refunds.list({ charge: charge.id, limit: 100 })
+  ).data;
+
+  let dailyRefunded: number | null = null;
+  if (hasDailyRefundCap(guardrails, charge.currency)) {
+    if (ledger) {
+      let baseline = ledger.baseline.get(charge.currency);
+      if (!baseline) {
+        baseline = sumDailyRefunds(stripe, charge.currency, now);
+        ledger.baseline.set(charge.currency, baseline);
+      }
+      // No awaits between reading the reservations and reserving below, so
+      // concurrent batch items cannot both spend the same headroom.
+      dailyRefunded = (await baseline) + (ledger.reserved.get(charge.currency) ?? 0);
+    } else {
+      dailyRefunded = await sumDailyRefunds(stripe, charge.currency, now);
+    }
+  }
+
+  const assessment = assessRefund(guardrails, {
+    charge,
+    existingRefunds,
+    requestedAmount: params.amount ?? null,
+    reason: params.reason ?? null,
+    dailyRefunded,
+    now,
+  });
+  logger.debug('Refund guardrails evaluated', {
+    charge_id: charge.id,
+    amount: assessment.amount,
+    currency: assessment.currency,
+    remaining_refundable: assessment.remaining_refundable,
+    pending_refunds: assessment.pending_refunds.length,
+    daily_refunded: assessment.daily_refunded,
+    violations: assessment.violations.map((violation) => violation.code),
+  });
+
+  if (ledger && assessment.allowed) {
+    ledger.reserved.set(
+      charge.currency,
+      (ledger.reserved.get(charge.currency) ?? 0) + assessment.amount
+    );
+  }
+
+  return { charge, assessment };
+}
+
+async function sumDailyRefunds(
+  stripe: Stripe,
+  currency: string,
+  now: number
+): Promise<number> {
+  let total = 0;
+  for await (const refund of stripe.refunds.list({
+    created: { gte: now - 24 * 3600 },
+    limit: 100,
+  })) {
+    if (
+      refund.currency === currency &&
+      refund.status !== 'failed' &&
+      refund.status !== 'canceled'
+    ) {
+      total += refund.amount;
+    }
+  }
+  return total;
+}
+
+async function selectBulkRefundTargets(
+  stripe: Stripe,
+  query: NonNullable<BulkRefundInput['query']>,
+  logger: Logger
+): Promise<BulkRefundPlan> {
+  const window = {
+    created_gte: query.created_gte,
+    created_lte: query.created_lte ?? Math.floor(Date.now() / 1000),
+  };
+  const params: Stripe.ChargeListParams = {
+    created: { gte: window.created_gte, lte: window.created_lte },
+    limit: 100,
+  };
+  if (query.customer) {
+    params.customer = query.customer;
+  }
+
+  const riskLevels = query.risk_levels ? new Set<string>(query.risk_levels) : null;
+  const targets: string[] = [];
+  for await (const charge of stripe.charges.list(params)) {
+    if (targets.length >= query.max_items) {
+      break;
+    }
+    if (charge.status !== 'succeeded') {
+      continue;
+    }
+    if (riskLevels && !riskLevels.has(charge.outcome?.risk_level ?? 'unknown')) {
+      continue;
+    }
+    targets.push(charge.id);
+  }
+  logger.debug('Bulk refund targets selected by query', {
+    count: targets.length,
+    customer: query.customer ?? null,
+    window,
+  });
+  return { targets, window };
+}
+
+function bulkRefundParams(target: string, input: BulkRefundInput): Stripe.RefundCreateParams {
+  const params: Stripe.RefundCreateParams = target.startsWith('pi_')
+    ? { payment_intent: target }
+    : { charge: target };
+  if (input.reason) {
+    params.reason = input.reason;
+  }
+  if (input.metadata) {
+    params.metadata = input.metadata;
+  }
+  return params;
+}
+
+function bulkRefundIdempotencyKey(target: string, input: BulkRefundInput): string {
+  return `stripe-mcp-bulk-refund-${fingerprintParams({
+    target,
+    reason: input.reason ?? null,
+    metadata: input.metadata ?? null,
+    batch_id: input.batch_id ?? null,
+  }).slice(0, 40)}`;
+}
+
+async function previewBulkRefundItem(
+  stripe: Stripe,
+  target: string,
+  input: BulkRefundInput,
+  guardrails: RefundGuardrails,
+  ledger: DailyRefundLedger,
+  logger: Logger
+): Promise<BulkRefundItem> {
+  const idempotencyKey = bulkRefundIdempotencyKey(target, input);
+  try {
+    const context = await loadRefundContext(
+      stripe,
+      bulkRefundParams(target, input),
+      guardrails,
+      logger,
+      ledger
+    );
+    return {
+      target,
+      charge_id: context.charge.id,
+      status: context.assessment.allowed
+        ? 'planned'
+        : classifyBlockedRefund(context.assessment),
+      refund_id: null,
+      amount: context.assessment.amount,
+      currency: context.assessment.currency,
+      idempotency_key: idempotencyKey,
+      request_id: null,
+      message: context.assessment.violations.map((violation) => violation.message).join(' ') || null,
+    };
+  } catch (error) {
+    return bulkRefundFailure(target, idempotencyKey, error);
+  }
+}
+
+async function executeBulkRefundItem(
+  stripe: Stripe,
+  target: string,
+  input: BulkRefundInput,
+  guardrails: RefundGuardrails,
+  ledger: DailyRefundLedger,
+  auditLog: AuditLog | null,
+  audit: Pick<AuditRecord, 'tool' | 'profile' | 'account' | 'inputs'>,
+  logger: Logger
+): Promise<BulkRefundItem> {
+  const idempotencyKey = bulkRefundIdempotencyKey(target, input);
+  const params = bulkRefundParams(target, input);
+  let context: RefundContext;
+  try {
+    context = await loadRefundContext(stripe, params, guardrails, logger, ledger);
+  } catch (error) {
+    return recordBulkRefundItem(auditLog, audit, bulkRefundFailure(target, idempotencyKey, error));
+  }
+
+  const { charge, assessment } = context;
+  if (!assessment.allowed) {
+    return recordBulkRefundItem(auditLog, audit, {
+      target,
+      charge_id: charge.id,
+      status: classifyBlockedRefund(assessment),
+      refund_id: null,
+      amount: assessment.amount,
+      currency: assessment.currency,
+      idempotency_key: idempotencyKey,
+      request_id: null,
+      message: assessment.violations.map((violation) => violation.message).join(' '),
+    });
+  }
+
+  try {
+    const refund = await auditMutation(
+      auditLog,
+      {
+        ...audit,
+        object_ids: [...new Set([target, charge.id])],
+        idempotency_key: idempotencyKey,
+      },
+      () => stripe.refunds.create(params, { idempotencyKey }),
+      (created) => ({
+        object_ids: [created.id],
+        result: { refund_id: created.id, amount: created.amount, currency: created.currency },
+      })
+    );
+    logger.info('Bulk refund item refunded', {
+      target,
+      refund_id: refund.id,
+      amount: refund.amount,
+      status: refund.status ?? null,
+      idempotency_key: idempotencyKey,
+    });
+    return {
+      target,
+      charge_id: charge.id,
+      status: 'succeeded',
+      refund_id: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      idempotency_key: idempotencyKey,
+      request_id: refund.lastResponse.requestId,
+      message: null,
+    };
+  } catch (error) {
+    releaseDailyReservation(ledger, assessment.currency, assessment.amount);
+    if (
+      error instanceof Stripe.errors.StripeError &&
+      error.code === 'charge_already_refunded'
+    ) {
+      return {
+        target,
+        charge_id: charge.id,
+        status: 'skipped',
+        refund_id: null,
+        amount: assessment.amount,
+        currency: assessment.currency,
+        idempotency_key: idempotencyKey,
+        request_id: error.requestId ?? null,
+        message: error.message,
+      };
+    }
+    logger.warn('Bulk refund item failed', {
+      target,
+      idempotency_key: idempotencyKey,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    return { ...bulkRefundFailure(target, idempotencyKey, error), charge_id: charge.id };
+  }
+}
+
+/**
+ * Audits a bulk refund item that never reached refunds.create; the refund
+ * call itself is audited by auditMutation.
+ */
+async function recordBulkRefundItem(
+  auditLog: AuditLog | null,
+  audit: Pick<AuditRecord, 'tool' | 'profile' | 'account' | 'inputs'>,
+  item: BulkRefundItem
+): Promise<BulkRefundItem> {
+  await auditLog?.record({
+    ...audit,
+    outcome: item.status === 'planned' ? 'skipped' : item.status,
+    object_ids: [
+      ...new Set([item.target, item.charge_id].filter((id): id is string => id !== null)),
+    ],
+    stripe_request_id: item.request_id,
+    idempotency_key: item.idempotency_key,
+    result: null,
+    error: item.message,
+  });
+  return item;
+}
+
+function classifyBlockedRefund(assessment: RefundAssessment): 'skipped' | 'failed' {
+  return assessment.violations.every(
+    (violation) => violation.code === 'not_refundable' || violation.code === 'duplicate_refund'
+  )
+    ? 'skipped'
+    : 'failed';
+}
+
+function bulkRefundFailure(
+  target: string,
+  idempotencyKey: string,
+  error: unknown
+): BulkRefundItem {
+  return {
+    target,
+    charge_id: null,
+    status: 'failed',
+    refund_id: null,
+    amount: null,
+    currency: null,
+    idempotency_key: idempotencyKey,
+    request_id: stripeRequestId(error),
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function countBulkRefundItems(items: BulkRefundItem[]): Record<BulkRefundItem['status'], number> {
+  const counts: Record<BulkRefundItem['status'], number> = {
+    planned: 0,
+    succeeded: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const item of items) {
+    counts[item.status] += 1;
+  }
+  return counts;
+}
+
+function describeBulkRefundCounts(counts: Record<BulkRefundItem['status'], number>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${status}=${count}`)
+    .join(', ') || 'nothing to do';
+}
+
+function describeBulkRefundItem(item: BulkRefundItem): string {
+  return `${item.target} | ${item.status.toUpperCase()} | ${item.amount ?? 'n/a'} ${
+    item.currency ?? ''
+  }${item.refund_id ? ` | ${item.refund_id}` : ''}${item.message ? ` | ${item.message}` : ''}`;
+}
+
+function createDailyRefundLedger(): DailyRefundLedger {
+  return { baseline: new Map(), reserved: new Map() };
+}
+
+function releaseDailyReservation(
+  ledger: DailyRefundLedger,
+  currency: string,
+  amount: number
+): void {
+  const reserved = ledger.reserved.get(currency);
+  if (reserved !== undefined) {
+    ledger.reserved.set(currency, Math.max(reserved - amount, 0));
+  }
+}
+
+function planRefund(
+  context: RefundContext,
+  params: Stripe.RefundCreateParams,
+  profile: string,
+  stripeAccount: string | null,
+  confirmations: ConfirmationStore
+): MutationPlan {
+  const { charge, assessment } = context;
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id ?? null;
+  const grant = confirmations.issue('stripe_create_refund', {
+    profile,
+    stripe_account: stripeAccount,
+    params,
+  });
+  return {
+    status: 'confirmation_required',
+    tool: 'stripe_create_refund',
+    profile,
+    request: {
+      method: 'POST',
+      path: '/v1/refunds',
+      params: params as Record<string, unknown>,
+      stripe_account: stripeAccount,
+    },
+    target: {
+      charge_id: charge.id,
+      payment_intent_id: paymentIntentId,
+      charge_amount: charge.amount,
+      amount_captured: charge.amount_captured,
+      amount_refunded: charge.amount_refunded,
+      remaining_refundable: assessment.remaining_refundable,
+      pending_refunds: assessment.pending_refunds.length,
+    },
+    amount: assessment.amount,
+    currency: charge.currency,
+    confirmation_token: grant.token,
+    expires_at: grant.expires_at,
+  };
+}
+
+function planRawRequest(
+  binding: {
+    profile: string;
+    method: string;
+    path: string;
+    params: Record<string, unknown> | null;
+    idempotency_key: string | null;
+    stripe_account: string | null;
+    api_version: string | null;
+  },
+  confirmations: ConfirmationStore
+): MutationPlan {
+  const [resource, objectId] = binding.path
+    .split('?')[0]!
+    .split('/')
+    .filter((segment) => segment.length > 0 && segment !== 'v1');
+  const amount = binding.params?.amount;
+  const currency = binding.params?.currency;
+  const grant = confirmations.issue('stripe_raw_request', binding);
+  return {
+    status: 'confirmation_required',
+    tool: 'stripe_raw_request',
+    profile: binding.profile,
+    request: {
+      method: binding.method,
+      path: binding.path,
+      params: binding.params,
+      stripe_account: binding.stripe_account,
+      idempotency_key: binding.idempotency_key,
+      api_version: binding.api_version,
+    },
+    target: {
+      resource: resource ?? null,
+      object_id: objectId ?? null,
+    },
+    amount: typeof amount === 'number' ? amount : null,
+    currency: typeof currency === 'string' ? currency : null,
+    confirmation_token: grant.token,
+    expires_at: grant.expires_at,
+  };
+}
+
+async function paginateRawRequest(
+  stripe: Stripe,
+  path: string,
+  options: Stripe.RawRequestOptions,
+  maxItems: number,
+  logger: Logger
+): Promise<PaginatedRawResponse> {
+  let pagePath = path;
+  const query = new URL(path, 'https://api.stripe.com').searchParams;
+  if (!query.has('limit')) {
+    pagePath = withQueryParam(path, 'limit', String(Math.min(maxItems, 100)));
+  }
+  // A list that starts from ending_before is walked backwards, towards newer
+  // objects; Stripe rejects starting_after and ending_before together.
+  const backwards = query.has('ending_before');
+
+  const items: unknown[] = [];
+  let pages = 0;
+  let first: Record<string, unknown> | null = null;
+  let lastResponse: Stripe.Response<unknown>['lastResponse'] | null = null;
+  let hasMore = false;
+  let kind: 'list' | 'search_result' | null = null;
+
+  for (;;) {
+    const response = await stripe.rawRequest('GET', pagePath, undefined, options);
+    const { lastResponse: pageResponse, ...page } =
+      response as Stripe.Response<Record<string, unknown>>;
+    pages += 1;
+    lastResponse = pageResponse;
+    first ??= page;
+
+    if (page.object !== 'list' && page.object !== 'search_result') {
+      // Not a paginated resource; hand back the body untouched.
+      return {
+        lastResponse,
+        data: page,
+        pagination: { pages, items: 0, has_more: false, truncated: false },
+      };
+    }
+    kind = page.object;
+
+    const data = Array.isArray(page.data) ? page.data : [];
+    items.push(...data);
+    hasMore = page.has_more === true;
+    logger.debug('Fetched raw request page', {
+      path: pagePath,
+      page: pages,
+      page_items: data.length,
+      has_more: hasMore,
+    });
+
+    if (!hasMore || items.length >= maxItems || data.length === 0) {
+      break;
+    }
+
+    if (kind === 'search_result') {
+      if (typeof page.next_page !== 'string' || page.next_page.length === 0) {
+        break;
+      }
+      pagePath = withQueryParam(pagePath, 'page', page.next_page);
+    } else {
+      const cursor = (backwards ? data[0] : data[data.length - 1]) as
+        | { id?: unknown }
+        | undefined;
+      if (!cursor || typeof cursor.id !== 'string') {
+        break;
+      }
+      pagePath = withQueryParam(
+        pagePath,
+        backwards ? 'ending_before' : 'starting_after',
+        cursor.id
+      );
+    }
+  }
+
+  const truncated = items.length > maxItems || (hasMore && items.length >= maxItems);
+  const merged = items.slice(0, maxItems);
+  const { next_page: _nextPage, ...rest } = first ?? {};
+  return {
+    lastResponse: lastResponse!,
+    data: {
+      ...rest,
+      object: kind,
+      data: merged,
+      has_more: hasMore || items.length > maxItems,
+    },
+    pagination: {
+      pages,
+      items: merged.length,
+      has_more: hasMore,
+      truncated,
+    },
+  };
+}
+
+function withQueryParam(path: string, key: string, value: string): string {
+  const url = new URL(path, 'https://api.stripe.com');
+  url.searchParams.set(key, value);
+  return `${url.pathname}${url.search}`;
+}
+
+function describeRawRequestPolicySummary(policy: RawRequestPolicy): string {
+  const described = describeRawRequestPolicy(policy);
+  if (!described.read_only && described.allow.length === 0 && described.deny.length === 0) {
+    return 'unrestricted';
+  }
+  return [
+    described.read_only ? 'read-only' : null,
+    described.allow.length > 0 ? `allow [${described.allow.join(', ')}]` : null,
+    described.deny.length > 0 ? `deny [${described.deny.join(', ')}]` : null,
+  ]
+    .filter((part): part is string => part !== null)
+    .join(' | ');
+}
+
+function describeMutationPlan(plan: MutationPlan): string {
+  return [
+    `Confirmation required: ${plan.request.method} ${plan.request.path}`,
+    `Profile: ${plan.profile}`,
+    `Target: ${Object.entries(plan.target)
+      .map(([key, value]) => `${key}=${value ?? 'n/a'}`)
+      .join(', ')}`,
+    `Amount: ${plan.amount ?? 'n/a'} ${plan.currency ?? ''}`.trimEnd(),
+    `Confirmation token: ${plan.confirmation_token} (expires ${plan.expires_at})`,
+    `Call ${plan.tool} again with the same parameters and confirmation_token to execute.`,
+    '',
+    `Request:\n${JSON.stringify(plan.request, null, 2)}`,
+  ].join('\n');
+}
+
+function registerStripeResources({
+  server,
+  profiles,
+  logger,
+  redactor,
+}: {
+  server: McpServer;
+  profiles: StripeProfiles;
+  logger: Logger;
+  redactor: Redactor;
+}) {
+  const resourcesLogger = logger.child('resources');
+  resourcesLogger.info('Registering Stripe resources');
+
+  const registerSummaryResource = <T>(
+    name: string,
+    template: ResourceTemplate,
+    title: string,
+    description: string,
+    load: (id: string) => Promise<T>
+  ) => {
+    const resourceLogger = resourcesLogger.child(name);
+    server.registerResource(
+      name,
+      template,
+      { title, description, mimeType: 'application/json' },
+      async (uri: URL, variables: Variables) => {
+        const id = templateVariable(variables, 'id');
+        resourceLogger.info('Resource read received', { uri: uri.href });
+        try {
+          const summary = await load(id);
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: 'application/json',
+                text: JSON.stringify(
+                  redactor.config.tool_output ? redactor.redactValue(summary) : summary,
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          resourceLogger.error('Resource read failed', {
+            uri: uri.href,
+            error_message: error instanceof Error ? error.message : String(error),
+            error_stack: error instanceof Error ? error.stack : undefined,
+          });
+          throw error;
+        }
+      }
+    );
+  };
+
+  registerSummaryResource(
+    'stripe_charge',
+    new ResourceTemplate('stripe://charges/{id}', { list: undefined }),
+    'Stripe Charge',
+    'Charge summary with Radar outcome, payment method details, and review reference.',
+    async (id) =>
+      summarizeCharge(await profiles.default.stripe.charges.retrieve(id, { expand: ['review'] }))
+  );
+
+  registerSummaryResource(
+    'stripe_payment_intent',
+    new ResourceTemplate('stripe://payment_intents/{id}', { list: undefined }),
+    'Stripe PaymentIntent',
+    'PaymentIntent summary with amounts, status, and customer.',
+    async (id) => summarizePaymentIntent(await profiles.default.stripe.paymentIntents.retrieve(id))
+  );
+
+  registerSummaryResource(
+    'stripe_dispute',
+    new ResourceTemplate('stripe://disputes/{id}', {
+      list: async () => {
+        const disputes = await profiles.default.stripe.disputes.list({ limit: 25 });
+        return {
+          resources: disputes.data.map((dispute) => ({
+            uri: `stripe://disputes/${dispute.id}`,
+            name: `Dispute ${dispute.id}`,
+            description: `${dispute.amount} ${dispute.currency} | ${dispute.status} | ${dispute.reason}`,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    'Stripe Dispute',
+    'Dispute summary. Listing returns the 25 most recent disputes.',
+    async (id) => summarizeDispute(await profiles.default.stripe.disputes.retrieve(id))
+  );
+
+  registerSummaryResource(
+    'stripe_review',
+    new ResourceTemplate('stripe://reviews/{id}', {
+      list: async () => {
+        const reviews = await profiles.default.stripe.reviews.list({ limit: 25 });
+        return {
+          resources: reviews.data.map((review) => ({
+            uri: `stripe://reviews/${review.id}`,
+            name: `Review ${review.id}`,
+            description: `${review.reason} | charge ${
+              typeof review.charge === 'string' ? review.charge : review.charge?.id ?? 'n/a'
+            }`,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    'Stripe Radar Review',
+    'Radar review summary. Listing returns up to 25 open reviews.',
+    async (id) => summarizeReview(await profiles.default.stripe.reviews.retrieve(id))
+  );
+
+  registerSummaryResource(
+    'stripe_customer',
+    new ResourceTemplate('stripe://customers/{id}', { list: undefined }),
+    'Stripe Customer',
+    'Customer summary with contact details and balance.',
+    async (id) => {
+      const customer = await profiles.default.stripe.customers.retrieve(id);
+      if ('deleted' in customer && customer.deleted) {
+        return { id: customer.id, deleted: true };
+      }
+      return summarizeCustomer(customer as Stripe.Customer);
+    }
+  );
+}
+
+function templateVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved) {
+    throw new Error(`Resource URI is missing the ${name} variable.`);
+  }
+  return decodeURIComponent(resolved);
+}
+
+const triageSourceLabels: Record<TriageSource, string> = {
+  charges: 'charges',
+  early_fraud_warnings: 'early fraud warnings',
+  reviews: 'open reviews',
+};
+
+async function buildTriageQueue(
+  fetcher: StripeFetcher,
+  input: TriageQueueInput,
+  logger: Logger,
+  policy: RecommendationPolicy
+): Promise<TriageQueueResult> {
+  const now = Math.floor(Date.now() / 1000);
+  const createdLte = input.created_lte ?? now;
+  const createdGte =
+    input.created_gte ?? createdLte - Math.round(input.lookback_hours * 3600);
+  if (createdGte > createdLte) {
+    throw new Error('created_gte must be earlier than created_lte.');
+  }
+
+  const riskLevels = input.risk_levels ? new Set<string>(input.risk_levels) : null;
+  const source: TriageSource = input.actionable_efw_only
+    ? 'early_fraud_warnings'
+    : input.open_reviews_only
+      ? 'reviews'
+      : 'charges';
+  const candidates: Stripe.Charge[] = [];
+  let scanned = 0;
+  let truncated = false;
+
+  logger.debug('Scanning for triage candidates', {
+    source,
+    created_gte: createdGte,
+    created_lte: createdLte,
+    max_scanned: input.max_scanned,
+  });
+  for await (const charge of scanTriageSource(fetcher, source, createdGte, createdLte)) {
+    if (scanned >= input.max_scanned || candidates.length >= input.limit) {
+      truncated = true;
+      break;
+    }
+    scanned += 1;
+
+    if (!charge || charge.created < createdGte || charge.created > createdLte) {
+      continue;
+    }
+    if (riskLevels && !riskLevels.has(charge.outcome?.risk_level ?? 'unknown')) {
+      continue;
+    }
+    if (
+      input.open_reviews_only &&
+      !(charge.review && typeof charge.review === 'object' && charge.review.open)
+    ) {
+      continue;
+    }
+    candidates.push(charge);
+  }
+
+  logger.debug('Triage candidates selected', {
+    scanned,
+    candidates: candidates.length,
+    truncated,
+  });
+
+  const failures: TriageFailure[] = [];
+  const analysed = await mapWithConcurrency(
+    candidates,
+    input.concurrency,
+    async (charge) => {
+      try {
+        fetcher.prime('charge', charge.id, charge);
+        const insight = await buildFraudInsight(
+          fetcher,
+          { charge_id: charge.id, include_events: input.include_events },
+          logger,
+          policy
+        );
+        return { charge, insight };
+      } catch (error) {
+        logger.warn('Fraud insight failed for triage candidate', {
+          charge_id: charge.id,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+        failures.push({
+          charge_id: charge.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    }
+  );
+
+  const items: TriageQueueItem[] = [];
+  for (const entry of analysed) {
+    if (!entry) {
+      continue;
+    }
+    const { charge, insight } = entry;
+    const openReview = insight.radar?.reviews.some((review) => review.open) ?? false;
+    const actionableEfw =
+      insight.radar?.early_fraud_warnings.some((warning) => warning.actionable) ?? false;
+    if (input.open_reviews_only && !openReview) {
+      continue;
+    }
+    if (input.actionable_efw_only && !actionableEfw) {
+      continue;
+    }
+    items.push({
+      rank: 0,
+      charge_id: charge.id,
+      payment_intent_id: insight.paymentIntent?.id ?? null,
+      amount: charge.amount,
+      currency: charge.currency,
+      created: charge.created,
+      risk_level: insight.radar?.risk_level ?? null,
+      risk_score: insight.radar?.risk_score ?? null,
+      open_review: openReview,
+      actionable_efw: actionableEfw,
+      dispute_count: insight.radar?.disputes.length ?? 0,
+      recommendation: insight.recommendation,
+    });
+  }
+
+  items.sort(compareTriageItems);
+  const counts = Object.fromEntries(
+    fraudActions.map((action) => [action, 0])
+  ) as Record<FraudAction, number>;
+  items.forEach((item, index) => {
+    item.rank = index + 1;
+    counts[item.recommendation.action] += 1;
+  });
+
+  return {
+    window: { created_gte: createdGte, created_lte: createdLte },
+    source,
+    scanned,
+    analysed: candidates.length,
+    truncated,
+    counts,
+    queue: items,
+    failures,
+  };
+}
+
+/**
+ * Yields the charges a triage queue may include, or null for a scanned record
+ * that cannot contribute one. With the early fraud warning or review filter,
+ * the charges come from those lists, so older matching charges are found
+ * without scanning every charge in between. Warnings and reviews are created
+ * after their charge, so only the start of the window narrows those lists.
+ */
+async function* scanTriageSource(
+  fetcher: StripeFetcher,
+  source: TriageSource,
+  createdGte: number,
+  createdLte: number
+): AsyncGenerator<Stripe.Charge | null> {
+  if (source === 'charges') {
+    // Expanded here so the insight for each candidate does not retrieve the
+    // charge again.
+    yield* fetcher.stripe.charges.list({
+      created: { gte: createdGte, lte: createdLte },
+      limit: 100,
+      expand: ['data.review', 'data.payment_intent', 'data.refunds'],
+    });
+    return;
+  }
+
+  const seen = new Set<string>();
+  const records =
+    source === 'early_fraud_warnings'
+      ? fetcher.stripe.radar.earlyFraudWarnings.list({ created: { gte: createdGte }, limit: 100 })
+      : fetcher.stripe.reviews.list({ created: { gte: createdGte }, limit: 100 });
+  for await (const record of records) {
+    const chargeId =
+      typeof record.charge === 'string' ? record.charge : (record.charge?.id ?? null);
+    if (
+      !chargeId ||
+      seen.has(chargeId) ||
+      ('actionable' in record && !record.actionable)
+    ) {
+      yield null;
+      continue;
+    }
+    seen.add(chargeId);
+    yield await fetchFraudCharge(fetcher, chargeId);
+  }
+}
+
+const openDisputeStatuses = new Set<string>([
+  'needs_response',
+  'warning_needs_response',
+  'under_review',
+  'warning_under_review',
+]);
+
+/**
+ * Sweeps at most `concurrency` connected accounts at a time. Each account's
+ * lists run on the platform client with the Stripe-Account header, so no
+ * per-account client is kept around after the sweep.
+ */
+async function buildConnectFraudSweep(
+  stripe: Stripe,
+  input: ConnectFraudSweepInput,
+  logger: Logger
+): Promise<ConnectFraudSweepResult> {
+  const now = Math.floor(Date.now() / 1000);
+  const createdLte = input.created_lte ?? now;
+  const createdGte =
+    input.created_gte ?? createdLte - Math.round(input.lookback_hours * 3600);
+  if (createdGte > createdLte) {
+    throw new Error('created_gte must be earlier than created_lte.');
+  }
+  const window = { created_gte: createdGte, created_lte: createdLte };
+
+  const accounts: { id: string; name: string | null }[] = [];
+  let accountsTruncated = false;
+  if (input.account_ids) {
+    for (const id of new Set(input.account_ids)) {
+      accounts.push({ id, name: null });
+    }
+  } else {
+    for await (const account of stripe.accounts.list({ limit: 100 })) {
+      if (accounts.length >= input.max_accounts) {
+        accountsTruncated = true;
+        break;
+      }
+      accounts.push({
+        id: account.id,
+        name: account.business_profile?.name ?? account.settings?.dashboard?.display_name ?? null,
+      });
+    }
+  }
+
+  logger.debug('Sweeping connected accounts', {
+    accounts: accounts.length,
+    accounts_truncated: accountsTruncated,
+    ...window,
+  });
+
+  const riskLevels = new Set<string>(input.risk_levels);
+  const failures: ConnectSweepFailure[] = [];
+  const swept = await mapWithConcurrency(accounts, input.concurrency, async (account) => {
+    try {
+      return await sweepConnectedAccount(stripe, account, window, riskLevels, input.max_scanned);
+    } catch (error) {
+      logger.warn('Connect fraud sweep failed for account', {
+        account_id: account.id,
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      failures.push({
+        account_id: account.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  });
+
+  const items = swept.filter((item): item is ConnectSweepAccount => item !== null);
+  items.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.charges_at_risk - a.charges_at_risk ||
+      a.account_id.localeCompare(b.account_id)
+  );
+  items.forEach((item, index) => {
+    item.rank = index + 1;
+  });
+
+  return {
+    window,
+    swept: items.length,
+    accounts_truncated: accountsTruncated,
+    exposed: items.filter((item) => item.score > 0).length,
+    disputes_truncated: items.filter((item) => item.truncated.disputes).length,
+    totals: {
+      open_disputes: items.reduce((sum, item) => sum + item.open_disputes.count, 0),
+      actionable_efws: items.reduce((sum, item) => sum + item.actionable_efws.count, 0),
+      high_risk_charges: items.reduce((sum, item) => sum + item.high_risk_charges.count, 0),
+    },
+    accounts: items.slice(0, input.limit),
+    failures,
+  };
+}
+
+/**
+ * Open disputes are not windowed because they stay actionable until they
+ * close, but Stripe cannot list disputes by status: only the newest
+ * `maxScanned` disputes are checked, and `truncated.disputes` marks accounts
+ * where older open ones may be missed. Warnings and charges are windowed. The
+ * score weights an open dispute 3, an actionable warning 2 and a high-risk
+ * charge 1.
+ */
+async function sweepConnectedAccount(
+  stripe: Stripe,
+  account: { id: string; name: string | null },
+  window: { created_gte: number; created_lte: number },
+  riskLevels: Set<string>,
+  maxScanned: number
+): Promise<ConnectSweepAccount> {
+  const options: Stripe.RequestOptions = { stripeAccount: account.id };
+  const created = { gte: window.created_gte, lte: window.created_lte };
+
+  const scanDisputes = async () => {
+    const open: Stripe.Dispute[] = [];
+    let scanned = 0;
+    let truncated = false;
+    for await (const dispute of stripe.disputes.list({ limit: 100 }, options)) {
+      if (scanned >= maxScanned) {
+        truncated = true;
+        break;
+      }
+      scanned += 1;
+      if (openDisputeStatuses.has(dispute.status)) {
+        open.push(dispute);
+      }
+    }
+    return { open, scanned, truncated };
+  };
+
+  const scanWarnings = async () => {
+    const actionable: Stripe.Radar.EarlyFraudWarning[] = [];
+    let scanned = 0;
+    let truncated = false;
+    for await (const warning of stripe.radar.earlyFraudWarnings.list(
+      { created, limit: 100, expand: ['data.charge'] },
+      options
+    )) {
+      if (scanned >= maxScanned) {
+        truncated = true;
+        break;
+      }
+      scanned += 1;
+      if (warning.actionable) {
+        actionable.push(warning);
+      }
+    }
+    return { actionable, scanned, truncated };
+  };
+
+  const scanCharges = async () => {
+    const highRisk: Stripe.Charge[] = [];
+    let scanned = 0;
+    let truncated = false;
+    for await (const charge of stripe.charges.list({ created, limit: 100 }, options)) {
+      if (scanned >= maxScanned) {
+        truncated = true;
+        break;
+      }
+      scanned += 1;
+      if (riskLevels.has(charge.outcome?.risk_level ?? 'unknown')) {
+        highRisk.push(charge);
+      }
+    }
+    return { highRisk, scanned, truncated };
+  };
+
+  const [disputes, warnings, charges] = await Promise.all([
+    scanDisputes(),
+    scanWarnings(),
+    scanCharges(),
+  ]);
+
+  const exposure = new Map<string, { amount: number; currency: string }>();
+  const disputeTotals: Record<string, number> = {};
+  for (const dispute of disputes.open) {
+    disputeTotals[dispute.currency] = (disputeTotals[dispute.currency] ?? 0) + dispute.amount;
+    const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+    exposure.set(chargeId, { amount: dispute.amount, currency: dispute.currency });
+  }
+  const warningTotals: Record<string, number> = {};
+  for (const warning of warnings.actionable) {
+    // Without the expanded charge there is no amount to add.
+    if (typeof warning.charge === 'string') {
+      continue;
+    }
+    const { charge } = warning;
+    warningTotals[charge.currency] = (warningTotals[charge.currency] ?? 0) + charge.amount;
+    if (!exposure.has(charge.id)) {
+      exposure.set(charge.id, { amount: charge.amount, currency: charge.currency });
+    }
+  }
+  const chargeTotals: Record<string, number> = {};
+  for (const charge of charges.highRisk) {
+    chargeTotals[charge.currency] = (chargeTotals[charge.currency] ?? 0) + charge.amount;
+    if (!exposure.has(charge.id)) {
+      exposure.set(charge.id, { amount: charge.amount, currency: charge.currency });
+    }
+  }
+  const exposureTotals: Record<string, number> = {};
+  for (const { amount, currency } of exposure.values()) {
+    exposureTotals[currency] = (exposureTotals[currency] ?? 0) + amount;
+  }
+
+  return {
+    rank: 0,
+    account_id: account.id,
+    name: account.name,
+    score: disputes.open.length * 3 + warnings.actionable.length * 2 + charges.highRisk.length,
+    charges_at_risk: exposure.size,
+    amount_at_risk_by_currency: exposureTotals,
+    open_disputes: {
+      count: disputes.open.length,
+      amount_by_currency: disputeTotals,
+      ids: disputes.open.slice(0, 10).map((dispute) => dispute.id),
+    },
+    actionable_efws: {
+      count: warnings.actionable.length,
+      amount_by_currency: warningTotals,
+      ids: warnings.actionable.slice(0, 10).map((warning) => warning.id),
+    },
+    high_risk_charges: {
+      count: charges.highRisk.length,
+      amount_by_currency: chargeTotals,
+      ids: charges.highRisk.slice(0, 10).map((charge) => charge.id),
+    },
+    scanned: {
+      disputes: disputes.scanned,
+      early_fraud_warnings: warnings.scanned,
+      charges: charges.scanned,
+    },
+    truncated: {
+      disputes: disputes.truncated,
+      early_fraud_warnings: warnings.truncated,
+      charges: charges.truncated,
+    },
+  };
+}
+
+async function collectVelocityEvents(
+  stripe: Stripe,
+  createdGte: number,
+  createdLte: number,
+  maxScanned: number,
+  logger: Logger
+): Promise<{ events: VelocityEvent[]; truncated: boolean }> {
+  const events: VelocityEvent[] = [];
+  let truncated = false;
+  for await (const charge of stripe.charges.list({
+    created: { gte: createdGte, lte: createdLte },
+    limit: 100,
+    expand: ['data.review'],
+  })) {
+    if (events.length >= maxScanned) {
+      truncated = true;
+      break;
+    }
+    events.push(velocityEventFromCharge(charge));
+  }
+  logger.debug('Velocity events collected', {
+    created_gte: createdGte,
+    created_lte: createdLte,
+    events: events.length,
+    truncated,
+  });
+  return { events, truncated };
+}
+
+function velocityEventFromCharge(charge: Stripe.Charge): VelocityEvent {
+  return {
+    charge_id: charge.id,
+    created: charge.created,
+    declined: charge.status === 'failed',
+    customer:
+      typeof charge.customer === 'string' ? charge.customer : charge.customer?.id ?? null,
+    email: charge.billing_details?.email?.toLowerCase() ?? null,
+    ip_address:
+      charge.review && typeof charge.review === 'object'
+        ? charge.review.ip_address ?? null
+        : null,
+    card_fingerprint: charge.payment_method_details?.card?.fingerprint ?? null,
+  };
+}
+
+/**
+ * Events for the entities of one charge. The customer's charges and the
+ * card's charges are listed by entity, so a busy account cannot push them
+ * out of the scan; emails and IPs can only be found by scanning the window,
+ * which stays capped at maxScanned.
+ */
+async function collectSeedVelocityEvents(
+  stripe: Stripe,
+  seed: VelocityEvent,
+  createdGte: number,
+  createdLte: number,
+  maxScanned: number,
+  logger: Logger
+): Promise<{ events: VelocityEvent[]; truncated: boolean }> {
+  const scan = await collectVelocityEvents(stripe, createdGte, createdLte, maxScanned, logger);
+  const events = new Map(scan.events.map((event) => [event.charge_id, event]));
+  const collect = async (source: AsyncIterable<Stripe.Charge>): Promise<boolean> => {
+    let count = 0;
+    for await (const charge of source) {
+      if (count >= maxScanned) {
+        return true;
+      }
+      count += 1;
+      events.set(charge.id, velocityEventFromCharge(charge));
+    }
+    return false;
+  };
+
+  const [customerTruncated, cardTruncated] = await Promise.all([
+    seed.customer
+      ? collect(
+          stripe.charges.list({
+            customer: seed.customer,
+            created: { gte: createdGte, lte: createdLte },
+            limit: 100,
+            expand: ['data.review'],
+          })
+        )
+      : Promise.resolve(false),
+    seed.card_fingerprint
+      ? collect(
+          stripe.charges.search({
+            query: `payment_method_details.card.fingerprint:'${escapeSearchValue(
+              seed.card_fingerprint
+            )}' AND created>=${createdGte} AND created<=${createdLte}`,
+            limit: 100,
+            expand: ['data.review'],
+          })
+        ).catch((error: unknown) => {
+          logger.warn('Charge search unavailable; card velocity relies on the window scan', {
+            error_message: error instanceof Error ? error.message : String(error),
+          });
+          return scan.truncated;
+        })
+      : Promise.resolve(false),
+  ]);
+  logger.debug('Seed velocity events collected', {
+    charge_id: seed.charge_id,
+    scanned: scan.events.length,
+    events: events.size,
+  });
+  return {
+    events: [...events.values()],
+    truncated: scan.truncated || customerTruncated || cardTruncated,
+  };
+}
+
+async function analyzeChargeVelocity(
+  stripe: Stripe,
+  charge: Stripe.Charge,
+  config: VelocityConfig,
+  logger: Logger
+): Promise<FraudInsightVelocity> {
+  const seed = velocityEventFromCharge(charge);
+  const span = longestWindowSeconds(config);
+  const createdGte = charge.created - span;
+  const createdLte = Math.min(Math.floor(Date.now() / 1000), charge.created + span);
+  const collected = await collectSeedVelocityEvents(
+    stripe,
+    seed,
+    createdGte,
+    createdLte,
+    config.max_scanned,
+    logger
+  );
+  const entities = analyzeVelocity(collected.events, config, {
+    only: {
+      customer: seed.customer,
+      email: seed.email,
+      ip_address: seed.ip_address,
+      card_fingerprint: seed.card_fingerprint,
+    },
+  });
+  const flagged = entities.some((entity) => entity.flagged);
+  logger.debug('Velocity signals analysed', {
+    charge_id: charge.id,
+    entities: entities.length,
+    flagged,
+  });
+  return {
+    window: { created_gte: createdGte, created_lte: createdLte },
+    scanned: collected.events.length,
+    truncated: collected.truncated,
+    entities,
+    flagged,
+  };
+}
+
+async function buildLinkedEntityGraph(
+  stripe: Stripe,
+  input: LinkedEntitiesInput,
+  logger: Logger
+): Promise<LinkedEntityGraph> {
+  const seedCharge = await stripe.charges.retrieve(input.charge_id, { expand: ['review'] });
+  const seed: Record<LinkType, string | null> = {
+    card_fingerprint: seedCharge.payment_method_details?.card?.fingerprint ?? null,
+    email: seedCharge.billing_details?.email ?? null,
+    ip_address:
+      seedCharge.review && typeof seedCharge.review === 'object'
+        ? seedCharge.review.ip_address ?? null
+        : null,
+  };
+  const wanted = new Set<LinkType>(input.link_types.filter((type) => seed[type] !== null));
+  const createdGte = Math.floor(Date.now() / 1000) - input.lookback_days * 24 * 3600;
+
+  const linked = new Map<string, { charge: Stripe.Charge; via: Set<LinkType> }>();
+  const sources: Partial<Record<LinkType, LinkSource>> = {};
+  let truncated = false;
+  const addLink = (charge: Stripe.Charge, type: LinkType) => {
+    if (charge.id === seedCharge.id) {
+      return;
+    }
+    const existing = linked.get(charge.id);
+    if (existing) {
+      existing.via.add(type);
+      return;
+    }
+    if (linked.size >= input.max_linked) {
+      truncated = true;
+      return;
+    }
+    linked.set(charge.id, { charge, via: new Set([type]) });
+  };
+
+  const needsScan = new Set<LinkType>();
+  if (wanted.has('card_fingerprint') && seed.card_fingerprint) {
+    try {
+      for await (const charge of stripe.charges.search({
+        query: `payment_method_details.card.fingerprint:'${escapeSearchValue(
+          seed.card_fingerprint
+        )}' AND created>=${createdGte}`,
+        limit: 100,
+      })) {
+        addLink(charge, 'card_fingerprint');
+        if (truncated) {
+          break;
+        }
+      }
+      sources.card_fingerprint = 'search';
+    } catch (error) {
+      logger.warn('Charge search unavailable; falling back to list scan', {
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      needsScan.add('card_fingerprint');
+    }
+  }
+
+  if (wanted.has('email') && seed.email) {
+    try {
+      const customerIds: string[] = [];
+      for await (const customer of stripe.customers.search({
+        query: `email:'${escapeSearchValue(seed.email)}'`,
+        limit: 100,
+      })) {
+        customerIds.push(customer.id);
+      }
+      for (const customerId of customerIds) {
+        // Each search is a paid request; once capped, the rest would be discarded.
+        if (truncated) {
+          break;
+        }
+        for await (const charge of stripe.charges.search({
+          query: `customer:'${escapeSearchValue(customerId)}' AND created>=${createdGte}`,
+          limit: 100,
+        })) {
+          addLink(charge, 'email');
+          if (truncated) {
+            break;
+          }
+        }
+      }
+      sources.email = 'search';
+    } catch (error) {
+      logger.warn('Customer search unavailable; falling back to list scan', {
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    // Guest charges carry the email only in billing_details, which search cannot query.
+    needsScan.add('email');
+  }
+
+  if (wanted.has('ip_address')) {
+    needsScan.add('ip_address');
+  }
+
+  let scanned = 0;
+  if (needsScan.size > 0 && !truncated) {
+    const params: Stripe.ChargeListParams = {
+      created: { gte: createdGte },
+      limit: 100,
+    };
+    if (needsScan.has('ip_address')) {
+      params.expand = ['data.review'];
+    }
+    for await (const charge of stripe.charges.list(params)) {
+      if (scanned >= input.max_scanned) {
+        truncated = true;
+        break;
+      }
+      scanned += 1;
+      if (
+        needsScan.has('card_fingerprint') &&
+        charge.payment_method_details?.card?.fingerprint === seed.card_fingerprint
+      ) {
+        addLink(charge, 'card_fingerprint');
+      }
+      if (
+        needsScan.has('email') &&
+        seed.email &&
+        charge.billing_details?.email?.toLowerCase() === seed.email.toLowerCase()
+      ) {
+        addLink(charge, 'email');
+      }
+      if (
+        needsScan.has('ip_address') &&
+        charge.review &&
+        typeof charge.review === 'object' &&
+        charge.review.ip_address === seed.ip_address
+      ) {
+        addLink(charge, 'ip_address');
+      }
+      if (truncated) {
+        break;
+      }
+    }
+    for (const type of needsScan) {
+      sources[type] = sources[type] === 'search' ? 'search+scan' : 'scan';
+    }
+  }
+  logger.debug('Linked charges collected', {
+    charge_id: seedCharge.id,
+    linked: linked.size,
+    scanned,
+    sources,
+  });
+
+  const linkedCharges = [...linked.values()];
+  const disputed: Record<string, number> = {};
+  const refunded: Record<string, number> = {};
+  await mapWithConcurrency(
+    [seedCharge, ...linkedCharges.map((entry) => entry.charge)].filter(
+      (charge) => charge.disputed
+    ),
+    4,
+    async (charge) => {
+      const disputes = await stripe.disputes.list({ charge: charge.id, limit: 100 });
+      for (const dispute of disputes.data) {
+        disputed[dispute.currency] = (disputed[dispute.currency] ?? 0) + dispute.amount;
+      }
+    }
+  );
+  for (const charge of [seedCharge, ...linkedCharges.map((entry) => entry.charge)]) {
+    if (charge.amount_refunded > 0) {
+      refunded[charge.currency] = (refunded[charge.currency] ?? 0) + charge.amount_refunded;
+    }
+  }
+
+  const nodes = new Map<string, LinkedEntityNode>();
+  const edges: LinkedEntityEdge[] = [];
+  const addChargeNode = (charge: Stripe.Charge) => {
+    nodes.set(charge.id, {
+      id: charge.id,
+      type: 'charge',
+      amount: charge.amount,
+      currency: charge.currency,
+      created: charge.created,
+      status: charge.status ?? null,
+      disputed: charge.disputed,
+      amount_refunded: charge.amount_refunded,
+      risk_score: charge.outcome?.risk_score ?? null,
+    });
+    const customerId =
+      typeof charge.customer === 'string' ? charge.customer : charge.customer?.id ?? null;
+    if (customerId) {
+      if (!nodes.has(customerId)) {
+        nodes.set(customerId, { id: customerId, type: 'customer' });
+      }
+      edges.push({ source: charge.id, target: customerId, type: 'customer' });
+    }
+  };
+
+  addChargeNode(seedCharge);
+  for (const { charge, via } of linkedCharges) {
+    addChargeNode(charge);
+    for (const type of via) {
+      edges.push({ source: seedCharge.id, target: charge.id, type });
+    }
+  }
+
+  const seedCustomer =
+    typeof seedCharge.customer === 'string'
+      ? seedCharge.customer
+      : seedCharge.customer?.id ?? null;
+  const customerNodes = [...nodes.values()].filter((node) => node.type === 'customer');
+  return {
+    seed: { charge_id: seedCharge.id, customer_id: seedCustomer, ...seed },
+    window: { created_gte: createdGte },
+    sources,
+    scanned,
+    truncated,
+    linked_charge_count: linkedCharges.length,
+    linked_customer_count: customerNodes.filter((node) => node.id !== seedCustomer).length,
+    exposure: { disputed, refunded },
+    nodes: [...nodes.values()],
+    edges,
+  };
+}
+
+function escapeSearchValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function describeConnectSweepTruncation(item: ConnectSweepAccount): string {
+  const lists = Object.entries(item.truncated)
+    .filter(([, truncated]) => truncated)
+    .map(([list]) => list);
+  return lists.length > 0 ? ` | truncated: ${lists.join(', ')}` : '';
+}
+
+function formatCurrencyTotals(totals: Record<string, number>): string {
+  const entries = Object.entries(totals);
+  return entries.length > 0
+    ? entries.map(([currency, amount]) => `${amount} ${currency}`).join(', ')
+    : 'none';
+}
+
+const customerRiskThresholds = {
+  disputeRate: 0.01,
+  distinctCards: 3,
+  distinctCountries: 2,
+  refundRate: 0.2,
+};
+
+async function buildCustomerRiskProfile(
+  stripe: Stripe,
+  input: CustomerRiskProfileInput,
+  logger: Logger,
+  policy: RecommendationPolicy
+): Promise<CustomerRiskProfile> {
+  const customers: Stripe.Customer[] = [];
+  if (input.customer_id) {
+    const customer = await stripe.customers.retrieve(input.customer_id);
+    if ('deleted' in customer && customer.deleted) {
+      throw new Error(`Customer ${input.customer_id} has been deleted.`);
+    }
+    customers.push(customer as Stripe.Customer);
+  }
+  if (input.email) {
+    for await (const customer of stripe.customers.list({ email: input.email, limit: 100 })) {
+      if (!customers.some((existing) => existing.id === customer.id)) {
+        customers.push(customer);
+      }
+    }
+  }
+  logger.debug('Customers resolved for risk profile', {
+    customer_count: customers.length,
+  });
+
+  const charges: Stripe.Charge[] = [];
+  let truncated = false;
+  for (const customer of customers) {
+    const params: Stripe.ChargeListParams = {
+      customer: customer.id,
+      limit: 100,
+      expand: ['data.review'],
+    };
+    if (typeof input.created_gte === 'number') {
+      params.created = { gte: input.created_gte };
+    }
+    for await (const charge of stripe.charges.list(params)) {
+      if (charges.length >= input.max_charges) {
+        truncated = true;
+        break;
+      }
+      charges.push(charge);
+    }
+    if (truncated) {
+      break;
+    }
+  }
+
+  // Warnings are looked up per charge, as in the fraud insight, so the cost
+  // follows the customer's charges rather than the whole account. Only
+  // succeeded charges are checked; they are also the denominator of every
+  // rate below.
+  const succeeded = charges.filter((charge) => charge.status === 'succeeded');
+  const warningsByCharge = new Map<string, Stripe.Radar.EarlyFraudWarning[]>();
+  await mapWithConcurrency(succeeded, 4, async (charge) => {
+    const warnings = await stripe.radar.earlyFraudWarnings.list({ charge: charge.id, limit: 100 });
+    if (warnings.data.length > 0) {
+      warningsByCharge.set(charge.id, warnings.data);
+    }
+  });
+
+  const disputesByCharge = new Map<string, Stripe.Dispute[]>();
+  await mapWithConcurrency(
+    charges.filter((charge) => charge.disputed),
+    4,
+    async (charge) => {
+      const disputes = await stripe.disputes.list({ charge: charge.id, limit: 100 });
+      disputesByCharge.set(charge.id, disputes.data);
+    }
+  );
+  logger.debug('Customer charge context collected', {
+    charge_count: charges.length,
+    charges_with_warnings: warningsByCharge.size,
+    charges_with_disputes: disputesByCharge.size,
+  });
+
+  const amountByCurrency: Record<string, number> = {};
+  const riskLevels: Record<string, number> = {};
+  const scores: number[] = [];
+  const fingerprints = new Set<string>();
+  const countries = new Set<string>();
+  const ips = new Set<string>();
+  const flagged: CustomerFlaggedCharge[] = [];
+
+  for (const charge of charges) {
+    if (charge.status === 'succeeded') {
+      amountByCurrency[charge.currency] = (amountByCurrency[charge.currency] ?? 0) + charge.amount;
+    }
+    const level = charge.outcome?.risk_level ?? 'unknown';
+    riskLevels[level] = (riskLevels[level] ?? 0) + 1;
+    if (typeof charge.outcome?.risk_score === 'number') {
+      scores.push(charge.outcome.risk_score);
+    }
+    const card = charge.payment_method_details?.card;
+    if (card?.fingerprint) {
+      fingerprints.add(card.fingerprint);
+    }
+    if (card?.country) {
+      countries.add(card.country);
+    }
+    if (charge.review && typeof charge.review === 'object' && charge.review.ip_address) {
+      ips.add(charge.review.ip_address);
+    }
+
+    const recommendation = deriveRecommendation(policy, {
+      charge,
+      earlyFraudWarnings: warningsByCharge.get(charge.id) ?? [],
+      disputes: disputesByCharge.get(charge.id) ?? [],
+    });
+    if (recommendation.action !== 'monitor') {
+      flagged.push({
+        charge_id: charge.id,
+        created: charge.created,
+        amount: charge.amount,
+        currency: charge.currency,
+        risk_score: charge.outcome?.risk_score ?? null,
+        recommendation,
+      });
+    }
+  }
+
+  flagged.sort(
+    (a, b) =>
+      fraudActionSeverity[b.recommendation.action] -
+        fraudActionSeverity[a.recommendation.action] ||
+      (b.risk_score ?? -1) - (a.risk_score ?? -1)
+  );
+
+  const disputedCount = succeeded.filter((charge) => charge.disputed).length;
+  const refundedCount = succeeded.filter((charge) => charge.amount_refunded > 0).length;
+  const warningCount = warningsByCharge.size;
+  const actionableWarningCount = [...warningsByCharge.values()].filter((warnings) =>
+    warnings.some((warning) => warning.actionable)
+  ).length;
+  const rate = (count: number) => (succeeded.length > 0 ? count / succeeded.length : null);
+
+  const rates = {
+    dispute_rate: rate(disputedCount),
+    refund_rate: rate(refundedCount),
+    efw_rate: rate(warningCount),
+  };
+  const profile: CustomerRiskProfile = {
+    customers: customers.map((customer) => ({
+      id: customer.id,
+      email: customer.email ?? null,
+      name: customer.name ?? null,
+      created: customer.created,
+    })),
+    charges: {
+      total: charges.length,
+      succeeded: succeeded.length,
+      failed: charges.filter((charge) => charge.status === 'failed').length,
+      amount_by_currency: amountByCurrency,
+      truncated,
+    },
+    counts: {
+      disputed: disputedCount,
+      refunded: refundedCount,
+      early_fraud_warnings: warningCount,
+      actionable_early_fraud_warnings: actionableWarningCount,
+    },
+    rates,
+    risk_score: summarizeRiskScores(scores),
+    risk_levels: riskLevels,
+    card_fingerprints: [...fingerprints],
+    issuing_countries: [...countries],
+    ip_addresses: [...ips],
+    flagged_charges: flagged.slice(0, 10),
+    recommendation: {
+      action: 'monitor',
+      reason: 'No flagged charges or unusual customer-level signals.',
+      rule: null,
+    },
+  };
+  profile.recommendation = deriveCustomerRecommendation(profile, flagged);
+  return profile;
+}
+
+function deriveCustomerRecommendation(
+  profile: CustomerRiskProfile,
+  flagged: CustomerFlaggedCharge[]
+): FraudRecommendation {
+  const worst = flagged[0];
+  if (worst?.recommendation.action === 'refund') {
+    return {
+      action: 'refund',
+      reason: `${flagged.filter((item) => item.recommendation.action === 'refund').length} charge(s) recommend refund; worst: ${
+        worst.charge_id
+      } (${worst.recommendation.reason})`,
+      rule: worst.recommendation.rule,
+    };
+  }
+
+  const signals: string[] = [];
+  if ((profile.rates.dispute_rate ?? 0) >= customerRiskThresholds.disputeRate) {
+    signals.push(`dispute rate ${formatRate(profile.rates.dispute_rate)}`);
+  }
+  if ((profile.rates.refund_rate ?? 0) >= customerRiskThresholds.refundRate) {
+    signals.push(`refund rate ${formatRate(profile.rates.refund_rate)}`);
+  }
+  if (profile.card_fingerprints.length >= customerRiskThresholds.distinctCards) {
+    signals.push(`${profile.card_fingerprints.length} distinct cards`);
+  }
+  if (profile.issuing_countries.length >= customerRiskThresholds.distinctCountries) {
+    signals.push(`cards from ${profile.issuing_countries.length} countries`);
+  }
+
+  if (worst?.recommendation.action === 'manual_review') {
+    return {
+      action: 'manual_review',
+      reason: `${flagged.length} charge(s) need manual review; worst: ${worst.charge_id} (${
+        worst.recommendation.reason
+      })${signals.length > 0 ? `. Customer signals: ${signals.join(', ')}.` : ''}`,
+      rule: worst.recommendation.rule,
+    };
+  }
+  if (signals.length > 0) {
+    return {
+      action: 'manual_review',
+      reason: `Customer-level signals: ${signals.join(', ')}.`,
+      rule: 'customer_aggregate',
+    };
+  }
+  return profile.recommendation;
+}
+
+function summarizeRiskScores(scores: number[]): RiskScoreDistribution {
+  const buckets: Record<string, number> = {
+    '0-19': 0,
+    '20-39': 0,
+    '40-59': 0,
+    '60-79': 0,
+    '80-100': 0,
+  };
+  for (const score of scores) {
+    const key =
+      score < 20 ? '0-19' : score < 40 ? '20-39' : score < 60 ? '40-59' : score < 80 ? '60-79' : '80-100';
+    buckets[key] = (buckets[key] ?? 0) + 1;
+  }
+  if (scores.length === 0) {
+    return { count: 0, min: null, max: null, mean: null, median: null, buckets };
+  }
+  const sorted = [...scores].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0
+      ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2
+      : (sorted[middle] ?? 0);
+  return {
+    count: sorted.length,
+    min: sorted[0] ?? null,
+    max: sorted[sorted.length - 1] ?? null,
+    mean: Math.round((sorted.reduce((total, score) => total + score, 0) / sorted.length) * 10) / 10,
+    median,
+    buckets,
+  };
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function compareTriageItems(a: TriageQueueItem, b: TriageQueueItem): number {
+  const severity =
+    fraudActionSeverity[b.recommendation.action] -
+    fraudActionSeverity[a.recommendation.action];
+  if (severity !== 0) {
+    return severity;
+  }
+  const score = (b.risk_score ?? -1) - (a.risk_score ?? -1);
+  if (score !== 0) {
+    return score;
+  }
+  return b.amount - a.amount;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(Math.max(concurrency, 1), items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next;
+        next += 1;
+        results[index] = await worker(items[index] as T, index);
+      }
+    }
+  );
+  await Promise.all(runners);
+  return results;
+}
+
+async function buildBlocklistProposal(
+  stripe: Stripe,
+  insight: FraudInsightResult,
+  input: BlocklistProposalInput,
+  logger: Logger
+): Promise<BlocklistProposal> {
+  const values: Record<BlocklistItemType, string | null> = {
+    card_fingerprint: insight.charge?.payment_method_details?.card?.fingerprint ?? null,
+    email: insight.charge?.billing_email ?? null,
+    ip_address:
+      insight.radar?.reviews.find((review) => review.ip_address)?.ip_address ?? null,
+  };
+
+  const restrictTo = input.value_list_ids ? new Set(input.value_list_ids) : null;
+  const valueLists: Stripe.Radar.ValueList[] = [];
+  for await (const list of stripe.radar.valueLists.list({ limit: 100 })) {
+    if (!restrictTo || restrictTo.has(list.id)) {
+      valueLists.push(list);
+    }
+  }
+  logger.debug('Value lists collected for proposal', {
+    count: valueLists.length,
+    restricted: Boolean(restrictTo),
+  });
+
+  const candidates: BlocklistCandidate[] = [];
+  const missing: BlocklistItemType[] = [];
+  for (const itemType of input.item_types) {
+    const value = values[itemType];
+    if (!value) {
+      missing.push(itemType);
+      continue;
+    }
+
+    const targetLists: BlocklistTarget[] = [];
+    for (const list of valueLists.filter((candidate) => candidate.item_type === itemType)) {
+      const existing = await stripe.radar.valueListItems.list({
+        value_list: list.id,
+        value,
+        limit: 1,
+      });
+      targetLists.push({
+        id: list.id,
+        alias: list.alias,
+        name: list.name,
+        already_listed: existing.data.length > 0,
+        existing_item_id: existing.data[0]?.id ?? null,
+      });
+    }
+    candidates.push({ item_type: itemType, value, target_lists: targetLists });
+  }
+
+  return { candidates, missing };
+}
+
+function summarizeValueList(list: Stripe.Radar.ValueList): ValueListSummary {
+  return {
+    id: list.id,
+    alias: list.alias,
+    name: list.name,
+    item_type: list.item_type,
+    created: list.created,
+    created_by: list.created_by,
+    item_count: list.list_items?.data.length ?? 0,
+    has_more_items: list.list_items?.has_more ?? false,
+  };
+}
+
+function summarizeValueListItem(item: Stripe.Radar.ValueListItem): ValueListItemSummary {
+  return {
+    id: item.id,
+    value: item.value,
+    value_list: item.value_list,
+    created: item.created,
+    created_by: item.created_by,
+  };
 }
 
-async function buildFraudInsight(
+const disputeEvidenceEditableStatuses = new Set<string>([
+  'needs_response',
+  'warning_needs_response',
+]);
+
+async function draftDisputeEvidence(
   stripe: Stripe,
-  input: FraudInsightInput,
+  dispute: Stripe.Dispute,
+  maxPriorCharges: number,
   logger: Logger
-): Promise<FraudInsightResult> {
-  logger.debug('Building fraud insight', {
-    payment_intent_id: input.payment_intent_id ?? null,
-    charge_id: input.charge_id ?? null,
-    include_events: input.include_events,
-  });
-  const result: FraudInsightResult = {
-    recommendation: {
-      action: 'monitor',
-      reason: 'Baseline recommendation before risk analysis.',
-    },
-  };
+): Promise<DisputeEvidenceDraft> {
+  const charge =
+    typeof dispute.charge === 'string'
+      ? await stripe.charges.retrieve(dispute.charge, { expand: ['review'] })
+      : dispute.charge;
 
-  let paymentIntent: Stripe.PaymentIntent | null = null;
-  let charge: Stripe.Charge | null = null;
+  const evidence: Partial<Record<DisputeEvidenceTextField, string>> = {};
+  const billing = charge.billing_details;
+  const billingAddress = formatAddress(billing?.address ?? null);
+  if (billingAddress) {
+    evidence.billing_address = billingAddress;
+  }
+  if (billing?.name) {
+    evidence.customer_name = billing.name;
+  }
+  if (billing?.email) {
+    evidence.customer_email_address = billing.email;
+  }
+  if (charge.review && typeof charge.review === 'object' && charge.review.ip_address) {
+    evidence.customer_purchase_ip = charge.review.ip_address;
+  }
 
-  if (input.payment_intent_id) {
-    logger.debug('Retrieving PaymentIntent', {
-      payment_intent_id: input.payment_intent_id,
-    });
-    paymentIntent = await stripe.paymentIntents.retrieve(
-      input.payment_intent_id,
-      {
-        expand: [
-          'latest_charge',
-          'latest_charge.outcome',
-          'latest_charge.review',
-          'latest_charge.payment_method_details',
-          'latest_charge.refunds',
-        ],
+  let customerEmail: string | null = null;
+  const customerId =
+    typeof charge.customer === 'string' ? charge.customer : charge.customer?.id ?? null;
+  if (customerId) {
+    logger.debug('Retrieving dispute customer', { customer_id: customerId });
+    const customer = await stripe.customers.retrieve(customerId);
+    if (!('deleted' in customer && customer.deleted)) {
+      customerEmail = customer.email ?? null;
+      if (!evidence.customer_email_address && customer.email) {
+        evidence.customer_email_address = customer.email;
+      }
+      if (!evidence.customer_name && customer.name) {
+        evidence.customer_name = customer.name;
       }
-    );
-    result.paymentIntent = summarizePaymentIntent(paymentIntent);
-    logger.debug('PaymentIntent retrieved', {
-      payment_intent_id: paymentIntent.id,
-      latest_charge_type: typeof paymentIntent.latest_charge,
-      status: paymentIntent.status,
-    });
-
-    if (
-      paymentIntent.latest_charge &&
-      typeof paymentIntent.latest_charge === 'object'
-    ) {
-      charge = paymentIntent.latest_charge as Stripe.Charge;
-    } else if (typeof paymentIntent.latest_charge === 'string') {
-      logger.debug('Fetching latest charge by ID', {
-        charge_id: paymentIntent.latest_charge,
-      });
-      charge = await stripe.charges.retrieve(paymentIntent.latest_charge, {
-        expand: [
-          'outcome',
-          'review',
-          'payment_intent',
-          'payment_method_details',
-          'refunds',
-        ],
-      });
-    }
-  }
-
-  if (input.charge_id) {
-    logger.debug('Retrieving Charge', { charge_id: input.charge_id });
-    charge = await stripe.charges.retrieve(input.charge_id, {
-      expand: [
-        'outcome',
-        'review',
-        'payment_intent',
-        'payment_method_details',
-        'refunds',
-      ],
-    });
-    result.charge = summarizeCharge(charge);
-    logger.debug('Charge retrieved', {
-      charge_id: charge.id,
-      outcome_present: Boolean(charge.outcome),
-    });
-
-    if (
-      charge.payment_intent &&
-      typeof charge.payment_intent === 'string' &&
-      !paymentIntent
-    ) {
-      logger.debug('Fetching PaymentIntent referenced by charge', {
-        payment_intent_id: charge.payment_intent,
-      });
-      paymentIntent = await stripe.paymentIntents.retrieve(
-        charge.payment_intent,
-        {
-          expand: ['latest_charge'],
-        }
-      );
-      result.paymentIntent = summarizePaymentIntent(paymentIntent);
-    } else if (
-      charge.payment_intent &&
-      typeof charge.payment_intent === 'object'
-    ) {
-      paymentIntent = charge.payment_intent as Stripe.PaymentIntent;
-      result.paymentIntent = summarizePaymentIntent(paymentIntent);
     }
   }
 
-  if (!charge && paymentIntent?.id) {
-    const chargeList = await stripe.charges.list({
-      payment_intent: paymentIntent.id,
-      limit: 1,
-      expand: ['data.outcome', 'data.review', 'data.payment_method_details'],
-    });
-    charge = chargeList.data[0] ?? null;
-    if (charge) {
-      result.charge = summarizeCharge(charge);
-      logger.debug('Charge inferred from PaymentIntent charges list', {
-        charge_id: charge.id,
-      });
-    } else {
-      logger.warn('No charge found for payment intent', {
-        payment_intent_id: paymentIntent.id,
+  const priorCharges: PriorChargeSummary[] = [];
+  if (customerId && maxPriorCharges > 0) {
+    for await (const prior of stripe.charges.list({
+      customer: customerId,
+      created: { lt: charge.created },
+      limit: 100,
+    })) {
+      if (priorCharges.length >= maxPriorCharges) {
+        break;
+      }
+      if (prior.id === charge.id || prior.status !== 'succeeded' || prior.disputed) {
+        continue;
+      }
+      priorCharges.push({
+        id: prior.id,
+        amount: prior.amount,
+        currency: prior.currency,
+        created: prior.created,
+        refunded: prior.refunded,
       });
     }
   }
 
-  if (charge) {
-    result.charge ??= summarizeCharge(charge);
-    const earlyFraudWarnings =
-      await stripe.radar.earlyFraudWarnings.list({ charge: charge.id });
+  const refunds = (await stripe.refunds.list({ charge: charge.id, limit: 100 })).data.map(
+    summarizeRefund
+  );
 
-    const reviews: ReviewSummary[] = [];
-    if (charge.review) {
-      if (typeof charge.review === 'string') {
-        logger.debug('Retrieving associated review', {
-          review_id: charge.review,
-        });
-        const reviewResponse = await stripe.reviews.retrieve(charge.review);
-        reviews.push(summarizeReview(reviewResponse));
-      } else {
-        reviews.push(summarizeReview(charge.review));
-      }
-    }
+  const checks = charge.payment_method_details?.card?.checks ?? null;
+  const threeDSecure = charge.payment_method_details?.card?.three_d_secure ?? null;
+  const narrative: string[] = [];
+  if (checks) {
+    narrative.push(
+      `Card verification checks: address line 1 ${checks.address_line1_check ?? 'not provided'}, postal code ${
+        checks.address_postal_code_check ?? 'not provided'
+      }, CVC ${checks.cvc_check ?? 'not provided'}.`
+    );
+  }
+  if (threeDSecure) {
+    narrative.push(
+      `3D Secure: ${threeDSecure.result ?? 'unknown result'}${
+        threeDSecure.version ? ` (version ${threeDSecure.version})` : ''
+      }.`
+    );
+  }
+  if (charge.receipt_url) {
+    narrative.push(`Receipt: ${charge.receipt_url}`);
+  }
+  if (priorCharges.length > 0) {
+    narrative.push(
+      `The customer completed ${priorCharges.length} prior undisputed payment(s): ${priorCharges
+        .map(
+          (prior) =>
+            `${prior.id} (${prior.amount} ${prior.currency}, ${new Date(
+              prior.created * 1000
+            ).toISOString().slice(0, 10)})`
+        )
+        .join(', ')}.`
+    );
+  }
+  narrative.push(
+    refunds.length > 0
+      ? `Refund history for this charge: ${refunds
+          .map((refund) => `${refund.id} (${refund.amount} ${refund.currency}, ${refund.status ?? 'unknown'})`)
+          .join(', ')}.`
+      : 'No refunds have been issued for this charge.'
+  );
+  evidence.uncategorized_text = narrative.join('\n');
 
-    const disputeData = input.include_events
-      ? (
-          await stripe.disputes.list({
-            charge: charge.id,
-            limit: 100,
-          })
-        ).data
-      : [];
-
-    const refundData =
-      typeof charge.refunds === 'object' && charge.refunds?.data
-        ? charge.refunds.data
-        : input.include_events
-        ? (
-            await stripe.refunds.list({
-              charge: charge.id,
-              limit: 100,
-            })
-          ).data
-        : [];
+  logger.debug('Dispute evidence drafted', {
+    dispute_id: dispute.id,
+    charge_id: charge.id,
+    fields: Object.keys(evidence),
+    prior_charge_count: priorCharges.length,
+    refund_count: refunds.length,
+  });
 
-    logger.debug('Radar context collected', {
+  return {
+    evidence,
+    sources: {
       charge_id: charge.id,
-      early_fraud_warning_count: earlyFraudWarnings.data.length,
-      review_count: reviews.length,
-      dispute_count: disputeData.length,
-      refund_count: refundData.length,
-    });
+      customer_id: customerId,
+      customer_email: customerEmail,
+      receipt_url: charge.receipt_url ?? null,
+      checks: checks
+        ? {
+            address_line1_check: checks.address_line1_check ?? null,
+            address_postal_code_check: checks.address_postal_code_check ?? null,
+            cvc_check: checks.cvc_check ?? null,
+          }
+        : null,
+      prior_charges: priorCharges,
+      refunds,
+    },
+  };
+}
 
-    result.radar = {
-      early_fraud_warnings: earlyFraudWarnings.data.map(
-        summarizeEarlyFraudWarning
-      ),
-      reviews,
-      disputes: disputeData.map(summarizeDispute),
-      refunds: refundData.map(summarizeRefund),
-      risk_level: charge.outcome?.risk_level ?? null,
-      risk_score: charge.outcome?.risk_score ?? null,
-      outcome_type: charge.outcome?.type ?? null,
-      seller_message: charge.outcome?.seller_message ?? null,
-    };
+function diffDisputeEvidence(
+  current: Stripe.Dispute.Evidence,
+  drafted: Partial<Record<DisputeEvidenceTextField, string>>,
+  overrides: Partial<Record<DisputeEvidenceTextField, string>>,
+  overwriteExisting: boolean
+): DisputeEvidenceDiffEntry[] {
+  const entries: DisputeEvidenceDiffEntry[] = [];
+  for (const field of disputeEvidenceTextFields) {
+    const existing = (current[field] as string | null | undefined) ?? null;
+    const override = overrides[field];
+    const proposed = override ?? drafted[field] ?? null;
+    if (proposed === null) {
+      continue;
+    }
 
-    result.recommendation = deriveRecommendation({
-      charge,
-      earlyFraudWarnings: earlyFraudWarnings.data,
-      disputes: disputeData,
-    });
-  } else {
-    result.recommendation = {
-      action: 'manual_review',
-      reason:
-        'No charge details available. Review manually before taking action.',
-    };
-    logger.warn('No charge details available for fraud insight', {
-      payment_intent_id: paymentIntent?.id ?? null,
-      charge_id: input.charge_id ?? null,
+    let change: DisputeEvidenceDiffEntry['change'];
+    if (existing === proposed) {
+      change = 'unchanged';
+    } else if (!existing) {
+      change = 'add';
+    } else if (override !== undefined || overwriteExisting) {
+      change = 'replace';
+    } else {
+      change = 'keep';
+    }
+    entries.push({
+      field,
+      current: existing,
+      proposed,
+      change,
+      source: override !== undefined ? 'override' : 'draft',
     });
   }
+  return entries;
+}
+
+function formatAddress(address: Stripe.Address | null): string | null {
+  if (!address) {
+    return null;
+  }
+  const parts = [
+    address.line1,
+    address.line2,
+    address.city,
+    address.state,
+    address.postal_code,
+    address.country,
+  ].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(', ') : null;
+}
 
-  return result;
+async function buildReviewContext(
+  fetcher: StripeFetcher,
+  review: Stripe.Review,
+  includeRecommendation: boolean,
+  logger: Logger,
+  policy: RecommendationPolicy
+): Promise<ReviewContext> {
+  const summary = summarizeReview(review);
+  if (!includeRecommendation || !summary.charge) {
+    return { review: summary, recommendation: null };
+  }
+
+  try {
+    const insight = await buildFraudInsight(
+      fetcher,
+      { charge_id: summary.charge, include_events: true },
+      logger,
+      policy
+    );
+    return { review: summary, recommendation: insight.recommendation };
+  } catch (error) {
+    logger.warn('Fraud insight failed for review charge', {
+      review_id: summary.id,
+      charge_id: summary.charge,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    return { review: summary, recommendation: null };
+  }
 }
 
 function summarizeReview(
@@ -752,8 +6236,18 @@ function summarizeReview(
     id: data.id,
     open: data.open,
     reason: data.reason ?? null,
+    opened_reason: data.opened_reason ?? null,
     created: data.created,
     closed_reason: data.closed_reason ?? null,
+    ip_address: data.ip_address ?? null,
+    charge:
+      data.charge && typeof data.charge === 'object'
+        ? data.charge.id
+        : (data.charge as string | null) ?? null,
+    payment_intent:
+      data.payment_intent && typeof data.payment_intent === 'object'
+        ? data.payment_intent.id
+        : data.payment_intent ?? null,
   };
 }
 
@@ -832,6 +6326,21 @@ function summarizePaymentIntent(
   };
 }
 
+function summarizeCustomer(customer: Stripe.Customer): CustomerSummary {
+  return {
+    id: customer.id,
+    email: customer.email ?? null,
+    name: customer.name ?? null,
+    phone: customer.phone ?? null,
+    created: customer.created,
+    currency: customer.currency ?? null,
+    balance: customer.balance,
+    delinquent: customer.delinquent ?? null,
+    address: customer.address ?? null,
+    metadata: customer.metadata,
+  };
+}
+
 function summarizeCharge(charge: Stripe.Charge): ChargeSummary {
   return {
     id: charge.id,
@@ -853,6 +6362,7 @@ function summarizeCharge(charge: Stripe.Charge): ChargeSummary {
         }
       : null,
     metadata: charge.metadata,
+    billing_email: charge.billing_details?.email ?? null,
     payment_method_details: charge.payment_method_details ?? null,
     review_id:
       charge.review && typeof charge.review === 'object'
@@ -862,60 +6372,30 @@ function summarizeCharge(charge: Stripe.Charge): ChargeSummary {
   };
 }
 
-function deriveRecommendation({
-  charge,
-  earlyFraudWarnings,
-  disputes,
-}: {
-  charge: Stripe.Charge;
-  earlyFraudWarnings: Stripe.Radar.EarlyFraudWarning[];
-  disputes: Stripe.Dispute[];
-}): FraudRecommendation {
-  if (disputes.length > 0) {
-    return {
-      action: 'refund',
-      reason: 'Existing dispute detected. Prefer immediate refund to reduce losses.',
-    };
-  }
-
-  if (earlyFraudWarnings.some((warning) => warning.actionable)) {
-    return {
-      action: 'refund',
-      reason:
-        'Actionable Radar early fraud warning present. Stripe recommends refunding.',
-    };
-  }
-
-  const riskLevel = charge.outcome?.risk_level ?? null;
-  const riskScore = charge.outcome?.risk_score ?? 0;
-
-  if (riskLevel === 'highest' || riskScore >= 75) {
-    return {
-      action: 'refund',
-      reason: `High risk detected (level: ${riskLevel ?? 'n/a'}, score: ${riskScore}).`,
-    };
-  }
-
-  if (riskLevel === 'elevated' || riskScore >= 50) {
-    return {
-      action: 'manual_review',
-      reason:
-        'Elevated risk level. Review supporting evidence before issuing refund.',
-    };
-  }
-
+function deriveRecommendation(
+  policy: RecommendationPolicy,
+  input: PolicyEvaluationInput
+): FraudRecommendation {
+  const decision = evaluateRecommendationPolicy(policy, input);
   return {
-    action: 'monitor',
-    reason:
-      'No disputes or actionable warnings. Monitor the transaction for future signals.',
+    action: decision.action,
+    reason: decision.reason,
+    rule: decision.rule,
   };
 }
 
-type FraudAction = 'refund' | 'manual_review' | 'monitor';
+const fraudActions: FraudAction[] = fraudActionSchema.options;
+
+const fraudActionSeverity: Record<FraudAction, number> = {
+  refund: 3,
+  manual_review: 2,
+  monitor: 1,
+};
 
 interface FraudRecommendation {
   action: FraudAction;
   reason: string;
+  rule: string | null;
   [key: string]: unknown;
 }
 
@@ -950,11 +6430,25 @@ interface ChargeSummary {
     type: string | null;
   } | null;
   metadata: Stripe.Metadata;
+  billing_email: string | null;
   payment_method_details: Stripe.Charge.PaymentMethodDetails | null;
   review_id: string | null;
   receipt_url: string | null;
 }
 
+interface CustomerSummary {
+  id: string;
+  email: string | null;
+  name: string | null;
+  phone: string | null;
+  created: number;
+  currency: string | null;
+  balance: number;
+  delinquent: boolean | null;
+  address: Stripe.Address | null;
+  metadata: Stripe.Metadata;
+}
+
 interface RadarInsight {
   early_fraud_warnings: EarlyFraudWarningSummary[];
   reviews: ReviewSummary[];
@@ -979,10 +6473,19 @@ interface ReviewSummary {
   id: string;
   open: boolean;
   reason: string | null;
+  opened_reason: string | null;
   created: number;
   closed_reason: string | null;
+  ip_address: string | null;
+  charge: string | null;
+  payment_intent: string | null;
 }
 
+type ReviewContext = {
+  review: ReviewSummary;
+  recommendation: FraudRecommendation | null;
+};
+
 interface DisputeSummary {
   id: string;
   amount: number;
@@ -1005,10 +6508,322 @@ interface RefundSummary {
   payment_intent: string | null;
 }
 
+interface FraudInsightVelocity {
+  window: { created_gte: number; created_lte: number };
+  scanned: number;
+  truncated: boolean;
+  entities: VelocityEntity[];
+  flagged: boolean;
+}
+
 interface FraudInsightResult {
   paymentIntent?: PaymentIntentSummary;
   charge?: ChargeSummary;
   radar?: RadarInsight;
+  velocity?: FraudInsightVelocity;
   recommendation: FraudRecommendation;
   [key: string]: unknown;
 }
+
+interface TriageQueueItem {
+  rank: number;
+  charge_id: string;
+  payment_intent_id: string | null;
+  amount: number;
+  currency: string;
+  created: number;
+  risk_level: string | null;
+  risk_score: number | null;
+  open_review: boolean;
+  actionable_efw: boolean;
+  dispute_count: number;
+  recommendation: FraudRecommendation;
+}
+
+interface TriageFailure {
+  charge_id: string;
+  error: string;
+}
+
+type TriageSource = 'charges' | 'early_fraud_warnings' | 'reviews';
+
+type TriageQueueResult = {
+  window: { created_gte: number; created_lte: number };
+  source: TriageSource;
+  scanned: number;
+  analysed: number;
+  truncated: boolean;
+  counts: Record<FraudAction, number>;
+  queue: TriageQueueItem[];
+  failures: TriageFailure[];
+};
+interface ConnectSweepSignal {
+  count: number;
+  amount_by_currency: Record<string, number>;
+  ids: string[];
+}
+interface ConnectSweepAccount {
+  rank: number;
+  account_id: string;
+  name: string | null;
+  score: number;
+  charges_at_risk: number;
+  amount_at_risk_by_currency: Record<string, number>;
+  open_disputes: ConnectSweepSignal;
+  actionable_efws: ConnectSweepSignal;
+  high_risk_charges: ConnectSweepSignal;
+  scanned: { disputes: number; early_fraud_warnings: number; charges: number };
+  truncated: { disputes: boolean; early_fraud_warnings: boolean; charges: boolean };
+}
+interface ConnectSweepFailure {
+  account_id: string;
+  error: string;
+}
+type ConnectFraudSweepResult = {
+  window: { created_gte: number; created_lte: number };
+  swept: number;
+  accounts_truncated: boolean;
+  exposed: number;
+  disputes_truncated: number;
+  totals: { open_disputes: number; actionable_efws: number; high_risk_charges: number };
+  accounts: ConnectSweepAccount[];
+  failures: ConnectSweepFailure[];
+};
+
+interface PriorChargeSummary {
+  id: string;
+  amount: number;
+  currency: string;
+  created: number;
+  refunded: boolean;
+}
+
+interface DisputeEvidenceDraft {
+  evidence: Partial<Record<DisputeEvidenceTextField, string>>;
+  sources: {
+    charge_id: string;
+    customer_id: string | null;
+    customer_email: string | null;
+    receipt_url: string | null;
+    checks: {
+      address_line1_check: string | null;
+      address_postal_code_check: string | null;
+      cvc_check: string | null;
+    } | null;
+    prior_charges: PriorChargeSummary[];
+    refunds: RefundSummary[];
+  };
+}
+
+interface DisputeEvidenceDiffEntry {
+  field: DisputeEvidenceTextField;
+  current: string | null;
+  proposed: string | null;
+  change: 'add' | 'replace' | 'keep' | 'unchanged';
+  source: 'draft' | 'override';
+}
+
+interface ValueListSummary {
+  id: string;
+  alias: string;
+  name: string;
+  item_type: string;
+  created: number;
+  created_by: string;
+  item_count: number;
+  has_more_items: boolean;
+}
+
+interface ValueListItemSummary {
+  id: string;
+  value: string;
+  value_list: string;
+  created: number;
+  created_by: string;
+}
+
+interface BlocklistTarget {
+  id: string;
+  alias: string;
+  name: string;
+  already_listed: boolean;
+  existing_item_id: string | null;
+}
+
+interface BlocklistCandidate {
+  item_type: BlocklistItemType;
+  value: string;
+  target_lists: BlocklistTarget[];
+}
+
+interface BlocklistProposal {
+  candidates: BlocklistCandidate[];
+  missing: BlocklistItemType[];
+}
+
+interface ProfileProbe extends StripeProfileDescription {
+  status: 'ok' | 'error';
+  mode: StripeMode | null;
+  writes: 'allowed' | 'read_only' | 'live_disabled' | 'live_confirmation_required';
+  platform_account_id: string | null;
+  stripe_account_used: string | null;
+  account: {
+    id: string;
+    type: Stripe.Account.Type | undefined;
+    charges_enabled: boolean;
+    payouts_enabled: boolean;
+    details_submitted: boolean;
+    email: string | null;
+  } | null;
+  error: string | null;
+}
+
+type MutationPlan = {
+  status: 'confirmation_required';
+  tool: string;
+  profile: string;
+  request: {
+    method: string;
+    path: string;
+    params: Record<string, unknown> | null;
+    stripe_account: string | null;
+    [key: string]: unknown;
+  };
+  target: Record<string, string | number | null>;
+  amount: number | null;
+  currency: string | null;
+  confirmation_token: string;
+  expires_at: string;
+};
+
+interface RefundContext {
+  charge: Stripe.Charge;
+  assessment: RefundAssessment;
+}
+
+interface DailyRefundLedger {
+  baseline: Map<string, Promise<number>>;
+  reserved: Map<string, number>;
+}
+
+interface BulkRefundItem {
+  target: string;
+  charge_id: string | null;
+  status: 'planned' | 'succeeded' | 'skipped' | 'failed';
+  refund_id: string | null;
+  amount: number | null;
+  currency: string | null;
+  idempotency_key: string;
+  request_id: string | null;
+  message: string | null;
+}
+
+interface BulkRefundPlan {
+  targets: string[];
+  window: { created_gte: number; created_lte: number } | null;
+}
+
+interface PaginatedRawResponse {
+  lastResponse: Stripe.Response<unknown>['lastResponse'];
+  data: Record<string, unknown>;
+  pagination: {
+    pages: number;
+    items: number;
+    has_more: boolean;
+    truncated: boolean;
+  };
+}
+
+interface RiskScoreDistribution {
+  count: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  buckets: Record<string, number>;
+}
+
+interface CustomerFlaggedCharge {
+  charge_id: string;
+  created: number;
+  amount: number;
+  currency: string;
+  risk_score: number | null;
+  recommendation: FraudRecommendation;
+}
+
+type CustomerRiskProfile = {
+  customers: {
+    id: string;
+    email: string | null;
+    name: string | null;
+    created: number;
+  }[];
+  charges: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    amount_by_currency: Record<string, number>;
+    truncated: boolean;
+  };
+  counts: {
+    disputed: number;
+    refunded: number;
+    early_fraud_warnings: number;
+    actionable_early_fraud_warnings: number;
+  };
+  rates: {
+    dispute_rate: number | null;
+    refund_rate: number | null;
+    efw_rate: number | null;
+  };
+  risk_score: RiskScoreDistribution;
+  risk_levels: Record<string, number>;
+  card_fingerprints: string[];
+  issuing_countries: string[];
+  ip_addresses: string[];
+  flagged_charges: CustomerFlaggedCharge[];
+  recommendation: FraudRecommendation;
+};
+
+type LinkSource = 'search' | 'scan' | 'search+scan';
+
+interface LinkedEntityNode {
+  id: string;
+  type: 'charge' | 'customer';
+  amount?: number;
+  currency?: string;
+  created?: number;
+  status?: string | null;
+  disputed?: boolean;
+  amount_refunded?: number;
+  risk_score?: number | null;
+}
+
+interface LinkedEntityEdge {
+  source: string;
+  target: string;
+  type: LinkType | 'customer';
+}
+
+type LinkedEntityGraph = {
+  seed: {
+    charge_id: string;
+    customer_id: string | null;
+    card_fingerprint: string | null;
+    email: string | null;
+    ip_address: string | null;
+  };
+  window: { created_gte: number };
+  sources: Partial<Record<LinkType, LinkSource>>;
+  scanned: number;
+  truncated: boolean;
+  linked_charge_count: number;
+  linked_customer_count: number;
+  exposure: {
+    disputed: Record<string, number>;
+    refunded: Record<string, number>;
+  };
+  nodes: LinkedEntityNode[];
+  edges: LinkedEntityEdge[];
+};
@@ -1,5 +1,12 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+
+import { compileRedactionConfig, Redactor } from './redaction.js';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+export const logLevels = ['debug', 'info', 'warn', 'error'] as const satisfies readonly LogLevel[];
+
 const levelPriority: Record<LogLevel, number> = {
   debug: 10,
   info: 20,
@@ -11,17 +18,192 @@ export interface LogContext {
   [key: string]: unknown;
 }
 
+export interface LogRecord {
+  level: LogLevel;
+  timestamp: string;
+  message: string;
+  logger?: string;
+  context?: LogContext;
+}
+
+/**
+ * Destination for log records. Sinks must never write to stdout: in the stdio
+ * build stdout carries the MCP protocol.
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+export class StderrSink implements LogSink {
+  write(record: LogRecord): void {
+    process.stderr.write(`${JSON.stringify(record)}\n`);
+  }
+}
+
+/**
+ * Appends JSON lines to a file, rotating it to `<path>.1` … `<path>.<maxFiles>`
+ * once it grows past `maxBytes`. Writes are synchronous so records from
+ * concurrent sessions never interleave.
+ */
+export class RotatingFileSink implements LogSink {
+  private size: number | null = null;
+
+  constructor(
+    readonly path: string,
+    private readonly maxBytes: number,
+    private readonly maxFiles: number
+  ) {}
+
+  write(record: LogRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    try {
+      if (this.size === null) {
+        mkdirSync(dirname(this.path), { recursive: true });
+        this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+      }
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) {
+        this.rotate();
+      }
+      appendFileSync(this.path, line, 'utf8');
+      this.size += Buffer.byteLength(line);
+    } catch (error) {
+      this.size = null;
+      process.stderr.write(
+        `${JSON.stringify({
+          level: 'error',
+          timestamp: new Date().toISOString(),
+          message: 'Failed to write log file',
+          context: {
+            path: this.path,
+            error_message: error instanceof Error ? error.message : String(error),
+          },
+        })}\n`
+      );
+    }
+  }
+
+  private rotate(): void {
+    rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index -= 1) {
+      if (existsSync(`${this.path}.${index}`)) {
+        renameSync(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+      }
+    }
+    renameSync(this.path, `${this.path}.1`);
+    this.size = 0;
+  }
+}
+
+const fileSinks = new Map<string, RotatingFileSink>();
+
+/**
+ * Sessions in one process share a sink per file so rotation is not raced.
+ */
+export function openFileSink(path: string, maxBytes: number, maxFiles: number): RotatingFileSink {
+  const resolved = resolve(path);
+  let sink = fileSinks.get(resolved);
+  if (!sink) {
+    sink = new RotatingFileSink(resolved, maxBytes, maxFiles);
+    fileSinks.set(resolved, sink);
+  }
+  return sink;
+}
+
+export type McpLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+// A type alias rather than an interface so it stays assignable to the SDK's
+// open-ended notification params.
+export type McpLogMessage = {
+  level: McpLogLevel;
+  logger?: string;
+  data: unknown;
+};
+
+const mcpLevels: Record<LogLevel, McpLogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+/**
+ * Forwards records to the client as `notifications/message`. Delivery errors
+ * are dropped: reporting them through the logger would loop back here.
+ */
+export class McpNotificationSink implements LogSink {
+  constructor(private readonly send: (message: McpLogMessage) => Promise<void> | void) {}
+
+  write(record: LogRecord): void {
+    const { level, logger, ...data } = record;
+    try {
+      Promise.resolve(
+        this.send({
+          level: mcpLevels[level],
+          ...(logger ? { logger } : {}),
+          data,
+        })
+      ).catch(() => undefined);
+    } catch {
+      // Not connected yet, or the client did not negotiate logging.
+    }
+  }
+}
+
+export function fromMcpLogLevel(level: McpLogLevel): LogLevel {
+  switch (level) {
+    case 'debug':
+      return 'debug';
+    case 'info':
+    case 'notice':
+      return 'info';
+    case 'warning':
+      return 'warn';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * State shared by a root logger and all of its children.
+ */
+export interface LoggerCore {
+  level: LogLevel;
+  sinks: LogSink[];
+  redactor: Redactor;
+}
+
 export class Logger {
-  private readonly level: LogLevel;
+  private readonly core: LoggerCore;
   private readonly name: string | undefined;
 
-  constructor(level: LogLevel = 'info', name?: string) {
-    this.level = level;
+  constructor(
+    level: LogLevel | LoggerCore = 'info',
+    name?: string,
+    sinks: LogSink[] = [new StderrSink()],
+    redactor: Redactor = new Redactor(compileRedactionConfig(undefined))
+  ) {
+    this.core = typeof level === 'string' ? { level, sinks, redactor } : level;
     this.name = name;
   }
 
+  get level(): LogLevel {
+    return this.core.level;
+  }
+
+  /**
+   * Changes the level for this logger and every logger derived from the same
+   * root, including children created earlier.
+   */
+  setLevel(level: LogLevel): void {
+    this.core.level = level;
+  }
+
+  addSink(sink: LogSink): void {
+    this.core.sinks.push(sink);
+  }
+
   child(childName: string, context?: LogContext): Logger {
-    const child = new Logger(this.level, this.name ? `${this.name}:${childName}` : childName);
+    const child = new Logger(this.core, this.name ? `${this.name}:${childName}` : childName);
     if (context) {
       child.debug('Logger child created', context);
     }
@@ -45,54 +227,26 @@ export class Logger {
   }
 
   private log(level: LogLevel, message: string, context?: LogContext): void {
-    if (levelPriority[level] < levelPriority[this.level]) {
+    if (levelPriority[level] < levelPriority[this.core.level]) {
       return;
     }
 
-    const payload: Record<string, unknown> = {
+    const record: LogRecord = {
       level,
       timestamp: new Date().toISOString(),
-      message,
+      message: this.core.redactor.redactText(message),
     };
 
     if (this.name) {
-      payload.logger = this.name;
+      record.logger = this.name;
     }
 
     if (context && Object.keys(context).length > 0) {
-      payload.context = sanitizeContext(context);
-    }
-
-    const serialized = JSON.stringify(payload);
-    switch (level) {
-      case 'debug':
-      case 'info':
-        console.log(serialized);
-        break;
-      case 'warn':
-        console.warn(serialized);
-        break;
-      case 'error':
-        console.error(serialized);
-        break;
-      default:
-        console.log(serialized);
+      record.context = this.core.redactor.redactValue(context);
     }
-  }
-}
 
-const secretKeys = new Set(['api_key', 'apiKey', 'stripe_api_key', 'authorization', 'token', 'secret']);
-
-function sanitizeContext(context: LogContext): LogContext {
-  const sanitized: LogContext = {};
-  for (const [key, value] of Object.entries(context)) {
-    if (secretKeys.has(key.toLowerCase())) {
-      sanitized[key] = '[REDACTED]';
-    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      sanitized[key] = sanitizeContext(value as LogContext);
-    } else {
-      sanitized[key] = value;
+    for (const sink of this.core.sinks) {
+      sink.write(record);
     }
   }
-  return sanitized;
 }
@@ -0,0 +1,377 @@
+import type Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+
+export const fraudActionSchema = z.enum(['refund', 'manual_review', 'monitor']);
+
+export type FraudAction = z.infer<typeof fraudActionSchema>;
+
+const ruleConditionsSchema = z
+  .object({
+    risk_levels: z
+      .array(z.string().min(1))
+      .min(1)
+      .optional()
+      .describe('Matches when the Radar risk level is one of these values.'),
+    min_risk_score: z
+      .number()
+      .min(0)
+      .max(100)
+      .optional()
+      .describe('Matches when the Radar risk score is at least this value.'),
+    max_risk_score: z
+      .number()
+      .min(0)
+      .max(100)
+      .optional()
+      .describe('Matches when the Radar risk score is at most this value.'),
+    efw_actionable: z
+      .boolean()
+      .optional()
+      .describe('Matches when an actionable early fraud warning is (or is not) present.'),
+    efw_fraud_types: z
+      .array(z.string().min(1))
+      .min(1)
+      .optional()
+      .describe('Matches when any early fraud warning has one of these fraud_type values.'),
+    has_dispute: z
+      .boolean()
+      .optional()
+      .describe('Matches when the charge has (or does not have) disputes.'),
+    dispute_reasons: z
+      .array(z.string().min(1))
+      .min(1)
+      .optional()
+      .describe('Matches when any dispute has one of these reasons.'),
+    min_amount: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe('Matches when the charge amount (smallest currency unit) is at least this value.'),
+    max_amount: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe('Matches when the charge amount (smallest currency unit) is at most this value.'),
+    currencies: z
+      .array(z.string().length(3))
+      .min(1)
+      .optional()
+      .describe('Matches when the charge currency is one of these ISO codes.'),
+    card_countries: z
+      .array(z.string().length(2))
+      .min(1)
+      .optional()
+      .describe('Matches when the card issuing country is one of these ISO codes.'),
+    velocity_flagged: z
+      .boolean()
+      .optional()
+      .describe(
+        'Matches when velocity analysis flagged (or did not flag) the customer, email, IP, or card of the charge. Never matches when velocity was not analysed.'
+      ),
+  })
+  .strict();
+
+const ruleSchema = z
+  .object({
+    name: z.string().trim().min(1).describe('Unique rule name reported when the rule fires.'),
+    when: ruleConditionsSchema
+      .default({})
+      .describe('Conditions that must all match. An empty object matches every charge.'),
+    action: fraudActionSchema.describe('Recommendation returned when the rule fires.'),
+    reason: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Optional reason text. Supports {risk_level}, {risk_score}, {amount}, {currency}, and {card_country} placeholders.'
+      ),
+  })
+  .strict();
+
+export const recommendationPolicySchema = z
+  .object({
+    rules: z
+      .array(ruleSchema)
+      .describe('Ordered rules. The first rule whose conditions all match decides the recommendation.'),
+    default_action: fraudActionSchema
+      .default('monitor')
+      .describe('Recommendation used when no rule matches (default: monitor).'),
+    default_reason: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Reason used when no rule matches.'),
+  })
+  .strict();
+
+export type RecommendationPolicyConfig = z.input<typeof recommendationPolicySchema>;
+type RecommendationPolicyRule = z.infer<typeof ruleSchema>;
+type RuleConditions = z.infer<typeof ruleConditionsSchema>;
+
+export interface RecommendationPolicy {
+  rules: RecommendationPolicyRule[];
+  defaultAction: FraudAction;
+  defaultReason: string;
+}
+
+export interface PolicyEvaluationInput {
+  charge: Stripe.Charge;
+  earlyFraudWarnings: Stripe.Radar.EarlyFraudWarning[];
+  disputes: Stripe.Dispute[];
+  /**
+   * Whether velocity analysis flagged one of the charge's entities; left out
+   * when velocity was not analysed.
+   */
+  velocityFlagged?: boolean;
+}
+
+export interface PolicyDecision {
+  action: FraudAction;
+  reason: string;
+  rule: string | null;
+}
+
+const defaultPolicyReason =
+  'No disputes or actionable warnings. Monitor the transaction for future signals.';
+
+/**
+ * Mirrors the thresholds the server shipped with before policies were
+ * configurable, so deployments without a policy keep the same behaviour.
+ */
+export const defaultRecommendationPolicy: RecommendationPolicyConfig = {
+  rules: [
+    {
+      name: 'existing_dispute',
+      when: { has_dispute: true },
+      action: 'refund',
+      reason: 'Existing dispute detected. Prefer immediate refund to reduce losses.',
+    },
+    {
+      name: 'actionable_early_fraud_warning',
+      when: { efw_actionable: true },
+      action: 'refund',
+      reason: 'Actionable Radar early fraud warning present. Stripe recommends refunding.',
+    },
+    {
+      name: 'highest_risk_level',
+      when: { risk_levels: ['highest'] },
+      action: 'refund',
+      reason: 'High risk detected (level: {risk_level}, score: {risk_score}).',
+    },
+    {
+      name: 'high_risk_score',
+      when: { min_risk_score: 75 },
+      action: 'refund',
+      reason: 'High risk detected (level: {risk_level}, score: {risk_score}).',
+    },
+    {
+      name: 'elevated_risk_level',
+      when: { risk_levels: ['elevated'] },
+      action: 'manual_review',
+      reason: 'Elevated risk level. Review supporting evidence before issuing refund.',
+    },
+    {
+      name: 'elevated_risk_score',
+      when: { min_risk_score: 50 },
+      action: 'manual_review',
+      reason: 'Elevated risk level. Review supporting evidence before issuing refund.',
+    },
+    {
+      name: 'velocity',
+      when: { velocity_flagged: true },
+      action: 'manual_review',
+      reason: 'Velocity thresholds exceeded for the customer, email, IP, or card of this charge.',
+    },
+  ],
+  default_action: 'monitor',
+  default_reason: defaultPolicyReason,
+};
+
+/**
+ * Parses and sanity-checks a policy. Throws with every problem found so a
+ * misconfigured deployment fails at startup rather than on the first call.
+ */
+export function compileRecommendationPolicy(
+  config: RecommendationPolicyConfig | undefined
+): RecommendationPolicy {
+  const parsed = parseConfigSection(
+    'recommendation_policy',
+    recommendationPolicySchema,
+    config ?? defaultRecommendationPolicy
+  );
+
+  const problems: string[] = [];
+  const names = new Set<string>();
+  let catchAll: string | null = null;
+  parsed.rules.forEach((rule, index) => {
+    if (names.has(rule.name)) {
+      problems.push(`rules.${index}: duplicate rule name "${rule.name}"`);
+    }
+    names.add(rule.name);
+
+    if (catchAll) {
+      problems.push(
+        `rules.${index}: rule "${rule.name}" is unreachable after catch-all rule "${catchAll}"`
+      );
+    }
+    if (Object.keys(rule.when).length === 0) {
+      catchAll ??= rule.name;
+    }
+
+    const { min_risk_score, max_risk_score, min_amount, max_amount } = rule.when;
+    if (
+      min_risk_score !== undefined &&
+      max_risk_score !== undefined &&
+      min_risk_score > max_risk_score
+    ) {
+      problems.push(`rules.${index}: min_risk_score is greater than max_risk_score`);
+    }
+    if (min_amount !== undefined && max_amount !== undefined && min_amount > max_amount) {
+      problems.push(`rules.${index}: min_amount is greater than max_amount`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid recommendation_policy: ${problems.join('; ')}`);
+  }
+
+  return {
+    rules: parsed.rules,
+    defaultAction: parsed.default_action,
+    defaultReason: parsed.default_reason ?? defaultPolicyReason,
+  };
+}
+
+export function evaluateRecommendationPolicy(
+  policy: RecommendationPolicy,
+  input: PolicyEvaluationInput
+): PolicyDecision {
+  const facts = collectFacts(input);
+  for (const rule of policy.rules) {
+    if (matchesConditions(rule.when, facts)) {
+      return {
+        action: rule.action,
+        reason: renderReason(
+          rule.reason ?? `Policy rule "${rule.name}" matched.`,
+          facts
+        ),
+        rule: rule.name,
+      };
+    }
+  }
+
+  return {
+    action: policy.defaultAction,
+    reason: renderReason(policy.defaultReason, facts),
+    rule: null,
+  };
+}
+
+interface PolicyFacts {
+  riskLevel: string | null;
+  riskScore: number | null;
+  amount: number;
+  currency: string;
+  cardCountry: string | null;
+  actionableWarning: boolean;
+  fraudTypes: Set<string>;
+  disputeCount: number;
+  disputeReasons: Set<string>;
+  velocityFlagged: boolean | null;
+}
+
+function collectFacts({
+  charge,
+  earlyFraudWarnings,
+  disputes,
+  velocityFlagged,
+}: PolicyEvaluationInput): PolicyFacts {
+  return {
+    riskLevel: charge.outcome?.risk_level ?? null,
+    riskScore: charge.outcome?.risk_score ?? null,
+    amount: charge.amount,
+    currency: charge.currency.toLowerCase(),
+    cardCountry: charge.payment_method_details?.card?.country?.toUpperCase() ?? null,
+    actionableWarning: earlyFraudWarnings.some((warning) => warning.actionable),
+    fraudTypes: new Set(earlyFraudWarnings.map((warning) => warning.fraud_type)),
+    disputeCount: disputes.length,
+    disputeReasons: new Set(disputes.map((dispute) => dispute.reason)),
+    velocityFlagged: velocityFlagged ?? null,
+  };
+}
+
+function matchesConditions(when: RuleConditions, facts: PolicyFacts): boolean {
+  if (when.risk_levels && !(facts.riskLevel && when.risk_levels.includes(facts.riskLevel))) {
+    return false;
+  }
+  if (
+    when.min_risk_score !== undefined &&
+    (facts.riskScore === null || facts.riskScore < when.min_risk_score)
+  ) {
+    return false;
+  }
+  if (
+    when.max_risk_score !== undefined &&
+    (facts.riskScore === null || facts.riskScore > when.max_risk_score)
+  ) {
+    return false;
+  }
+  if (when.efw_actionable !== undefined && facts.actionableWarning !== when.efw_actionable) {
+    return false;
+  }
+  if (when.efw_fraud_types && !when.efw_fraud_types.some((type) => facts.fraudTypes.has(type))) {
+    return false;
+  }
+  if (when.has_dispute !== undefined && facts.disputeCount > 0 !== when.has_dispute) {
+    return false;
+  }
+  if (
+    when.dispute_reasons &&
+    !when.dispute_reasons.some((reason) => facts.disputeReasons.has(reason))
+  ) {
+    return false;
+  }
+  if (when.min_amount !== undefined && facts.amount < when.min_amount) {
+    return false;
+  }
+  if (when.max_amount !== undefined && facts.amount > when.max_amount) {
+    return false;
+  }
+  if (
+    when.currencies &&
+    !when.currencies.some((currency) => currency.toLowerCase() === facts.currency)
+  ) {
+    return false;
+  }
+  if (
+    when.card_countries &&
+    !(
+      facts.cardCountry &&
+      when.card_countries.some((country) => country.toUpperCase() === facts.cardCountry)
+    )
+  ) {
+    return false;
+  }
+  if (
+    when.velocity_flagged !== undefined &&
+    (facts.velocityFlagged === null || facts.velocityFlagged !== when.velocity_flagged)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function renderReason(template: string, facts: PolicyFacts): string {
+  const values: Record<string, string> = {
+    risk_level: facts.riskLevel ?? 'n/a',
+    risk_score: facts.riskScore === null ? 'n/a' : String(facts.riskScore),
+    amount: String(facts.amount),
+    currency: facts.currency,
+    card_country: facts.cardCountry ?? 'n/a',
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
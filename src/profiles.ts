@@ -0,0 +1,292 @@
+import Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+import type { StripeRequestExecutor } from './execution.js';
+
+/**
+ * Name of the profile built from the top-level stripe_api_key settings.
+ */
+export const implicitProfileName = 'default';
+
+const profileNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/,
+    'Profile names use letters, digits, "_" and "-", and start with a letter or digit.'
+  );
+
+export const stripeProfileSchema = z
+  .object({
+    stripe_api_key: z
+      .string()
+      .min(1)
+      .describe('Stripe secret or restricted API key for this profile (sk_/rk_, live or test).'),
+    stripe_api_version: z
+      .string()
+      .optional()
+      .describe('Optional Stripe API version override for this profile. Leave undefined to use the account default.'),
+    default_stripe_account: z
+      .string()
+      .optional()
+      .describe('Optional default connected account ID, used when stripe_raw_request omits stripe_account.'),
+    read_only: z
+      .boolean()
+      .default(false)
+      .describe('When true, tools that change Stripe state are rejected for this profile (default: false).'),
+    allow_live_writes: z
+      .boolean()
+      .default(false)
+      .describe(
+        'When true, tools may change Stripe state with a live-mode key, provided each call repeats the account ID in confirm_live_account (default: false).'
+      ),
+  })
+  .strict();
+
+export const stripeProfilesSchema = z.record(profileNameSchema, stripeProfileSchema);
+
+export type StripeProfileConfigInput = z.input<typeof stripeProfileSchema>;
+
+export type StripeMode = 'live' | 'test';
+
+export interface StripeProfilesConfigInput {
+  stripe_api_key?: string | undefined;
+  stripe_api_version?: string | undefined;
+  default_stripe_account?: string | undefined;
+  allow_live_writes?: boolean | undefined;
+  profiles?: Record<string, StripeProfileConfigInput> | undefined;
+  default_profile?: string | undefined;
+}
+
+export interface StripeProfileDescription {
+  name: string;
+  default: boolean;
+  stripe_api_version: string | null;
+  default_stripe_account: string | null;
+  read_only: boolean;
+  key_mode: StripeMode | 'unknown';
+  allow_live_writes: boolean;
+}
+
+export interface StripeProfileIdentity {
+  account: Stripe.Account;
+  mode: StripeMode;
+}
+
+/**
+ * One Stripe platform and key. The SDK client is only created the first time
+ * a tool uses the profile, so unused profiles never touch the network.
+ */
+export class StripeProfile {
+  readonly keyMode: StripeMode | 'unknown';
+  private client: Stripe | null = null;
+  private readonly accountClients = new Map<string, Stripe>();
+  private identity: Promise<StripeProfileIdentity> | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly apiKey: string,
+    readonly apiVersion: string | null,
+    readonly defaultStripeAccount: string | null,
+    readonly readOnly: boolean,
+    readonly allowLiveWrites: boolean,
+    private readonly executor: StripeRequestExecutor
+  ) {
+    this.keyMode = keyModeOf(apiKey);
+  }
+
+  get stripe(): Stripe {
+    this.client ??= new Stripe(this.apiKey, stripeClientConfig(this.apiVersion, this.executor));
+    return this.client;
+  }
+
+  /**
+   * Client whose requests all run on the given connected account, so helpers
+   * that take a Stripe client work unchanged under Connect.
+   */
+  forAccount(stripeAccount: string | null): Stripe {
+    if (!stripeAccount) {
+      return this.stripe;
+    }
+    let client = this.accountClients.get(stripeAccount);
+    if (!client) {
+      client = new Stripe(this.apiKey, {
+        ...stripeClientConfig(this.apiVersion, this.executor),
+        stripeAccount,
+      });
+      this.accountClients.set(stripeAccount, client);
+    }
+    return client;
+  }
+
+  get initialized(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Retrieves the platform account behind the key, once unless refreshed.
+   * The mode comes from the response when Stripe includes livemode, and
+   * otherwise from the key prefix; a key of unknown format counts as live.
+   */
+  identify(refresh = false): Promise<StripeProfileIdentity> {
+    if (refresh || !this.identity) {
+      const identity = this.stripe.accounts.retrieve().then((account) => {
+        const livemode = (account as { livemode?: unknown }).livemode;
+        const mode: StripeMode =
+          typeof livemode === 'boolean'
+            ? livemode
+              ? 'live'
+              : 'test'
+            : this.keyMode === 'test'
+              ? 'test'
+              : 'live';
+        return { account, mode };
+      });
+      identity.catch(() => {
+        if (this.identity === identity) {
+          this.identity = null;
+        }
+      });
+      this.identity = identity;
+    }
+    return this.identity;
+  }
+}
+
+export class StripeProfiles {
+  constructor(
+    private readonly profiles: Map<string, StripeProfile>,
+    readonly defaultName: string
+  ) {}
+
+  get names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  get default(): StripeProfile {
+    return this.profiles.get(this.defaultName)!;
+  }
+
+  list(): StripeProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  resolve(name: string | undefined): StripeProfile {
+    if (name === undefined) {
+      return this.default;
+    }
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Unknown profile "${name}". Configured profiles: ${this.names.join(', ')}.`);
+    }
+    return profile;
+  }
+
+  describe(profile: StripeProfile): StripeProfileDescription {
+    return {
+      name: profile.name,
+      default: profile.name === this.defaultName,
+      stripe_api_version: profile.apiVersion,
+      default_stripe_account: profile.defaultStripeAccount,
+      read_only: profile.readOnly,
+      key_mode: profile.keyMode,
+      allow_live_writes: profile.allowLiveWrites,
+    };
+  }
+}
+
+/**
+ * Builds the profile registry from the top-level key (registered as
+ * "default") and the named profiles. Without a top-level key and with more
+ * than one profile, default_profile must say which one tools use.
+ */
+export function compileStripeProfiles(
+  config: StripeProfilesConfigInput,
+  executor: StripeRequestExecutor
+): StripeProfiles {
+  const parsed = parseConfigSection('profiles', stripeProfilesSchema, config.profiles ?? {});
+
+  const profiles = new Map<string, StripeProfile>();
+  if (config.stripe_api_key) {
+    if (implicitProfileName in parsed) {
+      throw new Error(
+        `Invalid profiles: "${implicitProfileName}" is reserved for the top-level stripe_api_key. Rename the profile or remove stripe_api_key.`
+      );
+    }
+    profiles.set(
+      implicitProfileName,
+      new StripeProfile(
+        implicitProfileName,
+        config.stripe_api_key,
+        config.stripe_api_version ?? null,
+        config.default_stripe_account ?? null,
+        false,
+        config.allow_live_writes ?? false,
+        executor
+      )
+    );
+  }
+  for (const [name, profile] of Object.entries(parsed)) {
+    profiles.set(
+      name,
+      new StripeProfile(
+        name,
+        profile.stripe_api_key,
+        profile.stripe_api_version ?? null,
+        profile.default_stripe_account ?? null,
+        profile.read_only,
+        profile.allow_live_writes,
+        executor
+      )
+    );
+  }
+
+  if (profiles.size === 0) {
+    throw new Error('Invalid profiles: configure stripe_api_key or at least one entry in profiles.');
+  }
+
+  let defaultName = config.default_profile;
+  if (defaultName === undefined) {
+    if (profiles.has(implicitProfileName)) {
+      defaultName = implicitProfileName;
+    } else if (profiles.size === 1) {
+      defaultName = [...profiles.keys()][0]!;
+    } else {
+      throw new Error(
+        `Invalid profiles: default_profile is required when several profiles are configured (${[
+          ...profiles.keys(),
+        ].join(', ')}).`
+      );
+    }
+  }
+  if (!profiles.has(defaultName)) {
+    throw new Error(
+      `Invalid profiles: default_profile "${defaultName}" is not configured (${[...profiles.keys()].join(', ')}).`
+    );
+  }
+
+  return new StripeProfiles(profiles, defaultName);
+}
+
+function keyModeOf(apiKey: string): StripeMode | 'unknown' {
+  const match = /^(?:sk|rk)_(live|test)_/.exec(apiKey);
+  return match ? (match[1] as StripeMode) : 'unknown';
+}
+
+function stripeClientConfig(
+  apiVersion: string | null,
+  executor: StripeRequestExecutor
+): Stripe.StripeConfig {
+  const stripeConfig: Stripe.StripeConfig = {
+    ...executor.stripeConfig(),
+    appInfo: {
+      name: 'Stripe MCP Server',
+      version: '0.1.0',
+      url: 'https://smithery.ai/',
+    },
+  };
+  if (apiVersion) {
+    stripeConfig.apiVersion = apiVersion as Stripe.LatestApiVersion;
+  }
+  return stripeConfig;
+}
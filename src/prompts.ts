@@ -0,0 +1,216 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import type { Logger } from './logger.js';
+
+const paymentIdSchema = z
+  .string()
+  .trim()
+  .regex(/^(pi|ch)_[A-Za-z0-9]+$/, 'Expected a PaymentIntent (pi_...) or Charge (ch_...) ID.');
+
+const unixSecondsSchema = z
+  .string()
+  .trim()
+  .regex(/^\d+$/, 'Expected a Unix timestamp in seconds.');
+
+const triagePaymentShape = {
+  payment_id: paymentIdSchema.describe('PaymentIntent (pi_...) or Charge (ch_...) ID to triage.'),
+  context: z
+    .string()
+    .optional()
+    .describe('Optional analyst notes, e.g. what the customer reported.'),
+};
+
+const respondToDisputeShape = {
+  dispute_id: z
+    .string()
+    .trim()
+    .regex(/^(dp|du)_[A-Za-z0-9]+$/, 'Expected a Dispute ID (dp_...).')
+    .describe('Dispute ID (dp_...) to respond to.'),
+  context: z
+    .string()
+    .optional()
+    .describe('Optional analyst notes, e.g. fulfilment details not stored in Stripe.'),
+};
+
+const cardTestingShape = {
+  lookback_hours: z
+    .string()
+    .trim()
+    .regex(/^\d+$/, 'Expected a whole number of hours.')
+    .optional()
+    .describe('Hours before created_lte to investigate (default: 1).'),
+  created_lte: unixSecondsSchema
+    .optional()
+    .describe('End of the window as a Unix timestamp in seconds (default: now).'),
+  charge_id: z
+    .string()
+    .trim()
+    .regex(/^ch_[A-Za-z0-9]+$/, 'Expected a Charge ID (ch_...).')
+    .optional()
+    .describe('Optional charge from the burst to anchor the investigation.'),
+};
+
+/**
+ * Each decision block uses the same envelope so reviewers can compare
+ * playbook outcomes side by side.
+ */
+const decisionEnvelope = (decisions: string, extraFields: string): string =>
+  [
+    'Finish with a single fenced ```json block containing:',
+    '{',
+    `  "decision": one of ${decisions},`,
+    '  "confidence": "low" | "medium" | "high",',
+    '  "summary": one or two sentences an analyst can read in the queue,',
+    '  "evidence": [short bullet strings citing the tool output that supports the decision],',
+    extraFields,
+    '  "actions_taken": [tool calls that changed Stripe state, or an empty list],',
+    '  "pending_confirmations": [mutations planned but not executed, with their confirmation tokens]',
+    '}',
+    'Do not execute any mutation (refund, evidence submission, value list change) until a human approves the decision. Show the plan and stop.',
+  ].join('\n');
+
+export function registerStripePrompts({
+  server,
+  logger,
+}: {
+  server: McpServer;
+  logger: Logger;
+}) {
+  const promptsLogger = logger.child('prompts');
+  promptsLogger.info('Registering fraud operations prompts');
+
+  server.registerPrompt(
+    'triage_payment',
+    {
+      title: 'Triage this payment',
+      description:
+        'Playbook for deciding whether a single payment should be refunded, reviewed, or monitored.',
+      argsSchema: triagePaymentShape,
+    },
+    ({ payment_id, context }) => {
+      promptsLogger.info('Prompt requested', { prompt: 'triage_payment', payment_id });
+      const idField = payment_id.startsWith('pi_') ? 'payment_intent_id' : 'charge_id';
+      return promptResult(
+        'Fraud triage for a single payment',
+        [
+          `Triage Stripe payment ${payment_id}.`,
+          context ? `Analyst context: ${context}` : null,
+          '',
+          'Follow these steps in order:',
+          `1. Call \`stripe_fraud_insight\` with \`${idField}: "${payment_id}"\` and \`include_velocity: true\`. Note the recommendation, the policy rule that fired, the Radar risk level and score, early fraud warnings, disputes, and any flagged velocity entities.`,
+          '2. Call `stripe_linked_entities` with the charge ID from step 1 to see whether the card fingerprint, email, or IP is shared with other charges, and whether those carry disputes or refunds.',
+          '3. If the charge has a customer, call `stripe_customer_risk_profile` with that `customer_id` to compare this payment with the customer\'s history.',
+          '4. If the charge has an open Radar review, mention it. Approving it (`stripe_approve_review`) is only appropriate for a `monitor` decision.',
+          '5. If the decision is `refund`, call `stripe_create_refund` WITHOUT `confirmation_token` to obtain the plan and any guardrail violations, and call `stripe_blocklist_proposal` to see which identifiers could be blocked. Do not confirm either.',
+          '',
+          'Weigh the tool recommendation against the linked-entity and customer evidence. If you disagree with the policy recommendation, say why.',
+          '',
+          decisionEnvelope(
+            '"refund" | "manual_review" | "monitor"',
+            '  "payment_id": the payment triaged,\n  "policy_recommendation": the action and rule from stripe_fraud_insight,\n  "block_candidates": [identifiers worth adding to a value list],'
+          ),
+        ]
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'respond_to_dispute',
+    {
+      title: 'Respond to dispute',
+      description:
+        'Playbook for deciding whether to contest or accept a dispute and drafting the evidence.',
+      argsSchema: respondToDisputeShape,
+    },
+    ({ dispute_id, context }) => {
+      promptsLogger.info('Prompt requested', { prompt: 'respond_to_dispute', dispute_id });
+      return promptResult(
+        'Dispute response',
+        [
+          `Prepare a response to Stripe dispute ${dispute_id}.`,
+          context ? `Analyst context: ${context}` : null,
+          '',
+          'Follow these steps in order:',
+          `1. Call \`stripe_dispute_evidence\` with \`dispute_id: "${dispute_id}"\` and \`action: "preview"\`. Note the reason, amount, status, evidence deadline, and which evidence fields can be drafted.`,
+          '2. Call `stripe_fraud_insight` with the disputed charge ID to see the Radar outcome, early fraud warnings, and refunds at the time of payment.',
+          '3. If the charge has a customer, call `stripe_customer_risk_profile` to check for prior successful, undisputed payments that support the merchant\'s case.',
+          '4. For `fraudulent` disputes, call `stripe_linked_entities` with the charge ID to check whether the card or email is linked to other disputes, which weakens the case.',
+          '5. If contesting, call `stripe_dispute_evidence` again with `action: "preview"` and `overrides` for any fields the analyst context fills in. Never use `stage` or `submit` without approval.',
+          '',
+          'Accept the dispute when the evidence is thin, the charge looks genuinely fraudulent, or the amount does not justify the effort. Contest it when delivery, authentication (3DS, CVC, AVS), or customer history supports the merchant.',
+          '',
+          decisionEnvelope(
+            '"contest" | "accept" | "needs_information"',
+            '  "dispute_id": the dispute,\n  "evidence_deadline": ISO timestamp from the preview,\n  "evidence_fields": {field: value} you propose to submit,\n  "missing_evidence": [fields the analyst still needs to supply],'
+          ),
+        ]
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'investigate_card_testing',
+    {
+      title: 'Investigate card-testing burst',
+      description:
+        'Playbook for confirming a card-testing attack in a time window and proposing containment.',
+      argsSchema: cardTestingShape,
+    },
+    ({ lookback_hours, created_lte, charge_id }) => {
+      promptsLogger.info('Prompt requested', {
+        prompt: 'investigate_card_testing',
+        lookback_hours,
+        created_lte,
+        charge_id,
+      });
+      const window = [
+        `\`lookback_hours: ${lookback_hours ?? '1'}\``,
+        created_lte ? `\`created_lte: ${created_lte}\`` : null,
+      ]
+        .filter(Boolean)
+        .join(' and ');
+      return promptResult(
+        'Card-testing investigation',
+        [
+          `Investigate a possible card-testing burst over the last ${lookback_hours ?? '1'} hour(s)${
+            created_lte ? ` ending at Unix time ${created_lte}` : ''
+          }.`,
+          charge_id ? `The analyst flagged charge ${charge_id} as part of the burst.` : null,
+          '',
+          'Follow these steps in order:',
+          `1. Call \`stripe_velocity\` with ${window}${
+            charge_id ? ` and \`charge_id: "${charge_id}"\`` : ''
+          } and \`flagged_only: true\`. Card testing typically shows many attempts and declines, and many distinct cards, from one IP, email, or customer.`,
+          `2. Call \`stripe_fraud_triage_queue\` with the same window to rank the charges and find any that succeeded (those may need refunds).`,
+          '3. For the entity with the highest velocity, call `stripe_linked_entities` on one of its charges to confirm the cluster and size the exposure.',
+          '4. Call `stripe_blocklist_proposal` on a representative charge to see which IPs, emails, or fingerprints can be blocked.',
+          '5. If successful charges from the burst should be refunded, call `stripe_bulk_refund` WITHOUT `confirmation_token` (reason `fraudulent`) to get the dry-run plan. Do not confirm it.',
+          '',
+          'Distinguish a genuine attack from a busy legitimate customer: look at decline codes, card countries, and whether the cards are new to the account.',
+          '',
+          decisionEnvelope(
+            '"card_testing_confirmed" | "suspicious" | "no_attack"',
+            '  "window": {"created_gte": number, "created_lte": number},\n  "offending_entities": [{"type": string, "value": string, "attempts": number, "declines": number}],\n  "succeeded_charges": [charge IDs that captured funds],\n  "block_candidates": [{"value_list": string, "value": string}],\n  "refund_plan": the bulk refund dry-run summary, or null,'
+          ),
+        ]
+      );
+    }
+  );
+}
+
+function promptResult(description: string, lines: (string | null)[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: lines.filter((line): line is string => line !== null).join('\n'),
+        },
+      },
+    ],
+  };
+}
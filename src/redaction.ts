@@ -0,0 +1,205 @@
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+
+const maskModeSchema = z.enum(['full', 'partial', 'off']);
+
+export type MaskMode = z.infer<typeof maskModeSchema>;
+
+export const redactionConfigSchema = z
+  .object({
+    api_keys: maskModeSchema
+      .default('full')
+      .describe('Secret and restricted Stripe keys (sk_live_, sk_test_, rk_live_, rk_test_). Default: full.'),
+    webhook_secrets: maskModeSchema
+      .default('full')
+      .describe('Webhook signing secrets (whsec_...). Default: full.'),
+    card_numbers: maskModeSchema
+      .default('partial')
+      .describe('Full card numbers (Luhn-valid, 13-19 digits). Partial keeps the last four digits. Default: partial.'),
+    emails: maskModeSchema
+      .default('partial')
+      .describe('Email addresses. Partial keeps the first character and the domain. Default: partial.'),
+    ip_addresses: maskModeSchema
+      .default('partial')
+      .describe('IPv4 and IPv6 addresses. Partial keeps the network prefix. Default: partial.'),
+    secret_keys: z
+      .array(z.string().trim().min(1))
+      .default([])
+      .describe('Extra object keys (case-insensitive) whose values are always fully redacted.'),
+    tool_output: z
+      .boolean()
+      .default(true)
+      .describe('When true, tool and resource output is masked the same way as logs (default: true).'),
+  })
+  .strict();
+
+export type RedactionConfigInput = z.input<typeof redactionConfigSchema>;
+export type RedactionConfig = z.infer<typeof redactionConfigSchema>;
+
+type PatternCategory = 'api_keys' | 'webhook_secrets' | 'card_numbers' | 'emails' | 'ip_addresses';
+
+interface RedactionPattern {
+  category: PatternCategory;
+  regex: RegExp;
+  full: string;
+  partial: (match: string) => string;
+  accept?: (match: string) => boolean;
+}
+
+const defaultSecretKeys = [
+  'api_key',
+  'apikey',
+  'stripe_api_key',
+  'authorization',
+  'token',
+  'secret',
+  'client_secret',
+  'signing_secret',
+  'password',
+];
+
+const ipv4Octet = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const hexGroup = '[0-9a-fA-F]{1,4}';
+
+/**
+ * Ordered so that secrets are replaced before the broader PII patterns get a
+ * chance to match parts of them.
+ */
+const patterns: RedactionPattern[] = [
+  {
+    category: 'api_keys',
+    regex: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{8,}\b/g,
+    full: '[REDACTED_API_KEY]',
+    partial: (match) => `${match.slice(0, match.indexOf('_', 3) + 1)}****${match.slice(-4)}`,
+  },
+  {
+    category: 'webhook_secrets',
+    regex: /\bwhsec_[A-Za-z0-9+/=]{8,}/g,
+    full: '[REDACTED_WEBHOOK_SECRET]',
+    partial: (match) => `whsec_****${match.slice(-4)}`,
+  },
+  {
+    category: 'emails',
+    regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    full: '[REDACTED_EMAIL]',
+    partial: (match) => `${match[0]}***${match.slice(match.lastIndexOf('@'))}`,
+  },
+  {
+    category: 'card_numbers',
+    regex: /(?<![\w.])\d(?:[ -]?\d){12,18}(?![\w.])/g,
+    full: '[REDACTED_CARD]',
+    partial: (match) => {
+      const digits = match.replace(/\D/g, '');
+      return `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}`;
+    },
+    accept: (match) => passesLuhn(match.replace(/\D/g, '')),
+  },
+  {
+    category: 'ip_addresses',
+    regex: new RegExp(`(?<![\\w.])${ipv4Octet}(?:\\.${ipv4Octet}){3}(?![\\w.])`, 'g'),
+    full: '[REDACTED_IP]',
+    partial: (match) => `${match.split('.').slice(0, 2).join('.')}.x.x`,
+  },
+  {
+    category: 'ip_addresses',
+    regex: new RegExp(
+      `(?<![\\w:])(?:(?:${hexGroup}:){7}${hexGroup}|(?:${hexGroup}:){1,6}:(?:${hexGroup}(?::${hexGroup})*)?|::(?:${hexGroup}:){0,5}${hexGroup})(?![\\w:])`,
+      'g'
+    ),
+    full: '[REDACTED_IP]',
+    partial: (match) => `${match.split(':').slice(0, 2).join(':')}::x`,
+    accept: (match) => match.split(':').filter((group) => group.length > 0).length >= 2,
+  },
+];
+
+export function compileRedactionConfig(config: RedactionConfigInput | undefined): RedactionConfig {
+  return parseConfigSection('redaction', redactionConfigSchema, config ?? {});
+}
+
+/**
+ * Masks secrets and PII by key name and by value pattern. Objects and arrays
+ * are copied, never mutated.
+ */
+export class Redactor {
+  private readonly secretKeys: Set<string>;
+  private readonly activePatterns: RedactionPattern[];
+
+  constructor(readonly config: RedactionConfig) {
+    this.secretKeys = new Set(
+      [...defaultSecretKeys, ...config.secret_keys].map((key) => key.toLowerCase())
+    );
+    this.activePatterns = patterns.filter((pattern) => config[pattern.category] !== 'off');
+  }
+
+  redactText(text: string): string {
+    let result = text;
+    for (const pattern of this.activePatterns) {
+      const mode = this.config[pattern.category];
+      result = result.replace(pattern.regex, (match) => {
+        if (pattern.accept && !pattern.accept(match)) {
+          return match;
+        }
+        return mode === 'partial' ? pattern.partial(match) : pattern.full;
+      });
+    }
+    return result;
+  }
+
+  redactValue<T>(value: T): T {
+    return this.redact(value, new WeakSet()) as T;
+  }
+
+  /**
+   * `seen` holds only the ancestors of `value`, so an object referenced twice
+   * without a cycle is redacted twice instead of reported as circular.
+   */
+  private redact(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+      const redacted = value.map((item) => this.redact(item, seen));
+      seen.delete(value);
+      return redacted;
+    }
+    if (value && typeof value === 'object') {
+      if (value instanceof Date) {
+        return value;
+      }
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+      const redacted: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        redacted[key] =
+          this.secretKeys.has(key.toLowerCase()) && entry !== null && entry !== undefined
+            ? '[REDACTED]'
+            : this.redact(entry, seen);
+      }
+      seen.delete(value);
+      return redacted;
+    }
+    return value;
+  }
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
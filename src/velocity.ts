@@ -0,0 +1,233 @@
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+
+export const velocityEntityTypes = ['customer', 'email', 'ip_address', 'card_fingerprint'] as const;
+
+export type VelocityEntityType = (typeof velocityEntityTypes)[number];
+
+const velocityWindowSchema = z
+  .object({
+    label: z.string().trim().min(1).describe('Short name for the window, e.g. "1h".'),
+    seconds: z
+      .number()
+      .int()
+      .positive()
+      .max(30 * 24 * 3600)
+      .describe('Window length in seconds.'),
+    max_attempts: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Flag entities with more charge attempts than this in any window.'),
+    max_declines: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Flag entities with more declined charges than this in any window.'),
+    max_distinct_cards: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Flag entities that used more distinct cards than this in any window.'),
+  })
+  .strict();
+
+export const velocityConfigSchema = z
+  .object({
+    windows: z
+      .array(velocityWindowSchema)
+      .min(1)
+      .default([
+        { label: '1h', seconds: 3600, max_attempts: 10, max_declines: 5, max_distinct_cards: 3 },
+        { label: '24h', seconds: 86400, max_attempts: 50, max_declines: 15, max_distinct_cards: 5 },
+      ])
+      .describe('Sliding windows and the thresholds that flag an entity within them.'),
+    max_scanned: z
+      .number()
+      .int()
+      .positive()
+      .max(20000)
+      .default(2000)
+      .describe('Maximum number of charges scanned per velocity analysis (default: 2000).'),
+  })
+  .strict();
+
+export type VelocityConfigInput = z.input<typeof velocityConfigSchema>;
+export type VelocityConfig = z.infer<typeof velocityConfigSchema>;
+export type VelocityWindow = VelocityConfig['windows'][number];
+
+export interface VelocityEvent {
+  charge_id: string;
+  created: number;
+  declined: boolean;
+  customer: string | null;
+  email: string | null;
+  ip_address: string | null;
+  card_fingerprint: string | null;
+}
+
+export interface VelocityWindowStats {
+  label: string;
+  seconds: number;
+  attempts: number;
+  declines: number;
+  distinct_cards: number;
+  exceeded: ('attempts' | 'declines' | 'distinct_cards')[];
+}
+
+export interface VelocityEntity {
+  entity_type: VelocityEntityType;
+  value: string;
+  total_attempts: number;
+  windows: VelocityWindowStats[];
+  flagged: boolean;
+}
+
+export function compileVelocityConfig(config: VelocityConfigInput | undefined): VelocityConfig {
+  const parsed = parseConfigSection('velocity', velocityConfigSchema, config ?? {});
+
+  const labels = new Set<string>();
+  for (const window of parsed.windows) {
+    if (labels.has(window.label)) {
+      throw new Error(`Invalid velocity: duplicate window label "${window.label}"`);
+    }
+    labels.add(window.label);
+  }
+  return parsed;
+}
+
+export function longestWindowSeconds(config: VelocityConfig): number {
+  return Math.max(...config.windows.map((window) => window.seconds));
+}
+
+/**
+ * Groups events by entity and, for every window length, reports the peak
+ * counts found in any interval of that length (not just the trailing one).
+ */
+export function analyzeVelocity(
+  events: VelocityEvent[],
+  config: VelocityConfig,
+  options: {
+    entityTypes?: readonly VelocityEntityType[];
+    only?: Partial<Record<VelocityEntityType, string | null>>;
+  } = {}
+): VelocityEntity[] {
+  const entityTypes = options.entityTypes ?? velocityEntityTypes;
+  const groups = new Map<string, { type: VelocityEntityType; value: string; events: VelocityEvent[] }>();
+
+  for (const event of events) {
+    for (const type of entityTypes) {
+      const value = event[type];
+      if (!value) {
+        continue;
+      }
+      if (options.only && options.only[type] !== value) {
+        continue;
+      }
+      const key = `${type}:${value}`;
+      const group = groups.get(key) ?? { type, value, events: [] };
+      group.events.push(event);
+      groups.set(key, group);
+    }
+  }
+
+  const entities: VelocityEntity[] = [];
+  for (const group of groups.values()) {
+    const sorted = [...group.events].sort((a, b) => a.created - b.created);
+    const windows = config.windows.map((window) => measureWindow(sorted, window));
+    entities.push({
+      entity_type: group.type,
+      value: group.value,
+      total_attempts: sorted.length,
+      windows,
+      flagged: windows.some((window) => window.exceeded.length > 0),
+    });
+  }
+
+  return entities.sort(
+    (a, b) =>
+      Number(b.flagged) - Number(a.flagged) ||
+      peakAttempts(b) - peakAttempts(a) ||
+      a.value.localeCompare(b.value)
+  );
+}
+
+export function describeVelocityFlags(entities: VelocityEntity[]): string[] {
+  return entities
+    .filter((entity) => entity.flagged)
+    .flatMap((entity) =>
+      entity.windows
+        .filter((window) => window.exceeded.length > 0)
+        .map(
+          (window) =>
+            `${entity.entity_type} ${entity.value}: ${window.attempts} attempts, ${window.declines} declines, ${window.distinct_cards} cards in ${window.label} (exceeds ${window.exceeded.join(', ')})`
+        )
+    );
+}
+
+function measureWindow(sorted: VelocityEvent[], window: VelocityWindow): VelocityWindowStats {
+  let attempts = 0;
+  let declines = 0;
+  let distinctCards = 0;
+  let declinesInWindow = 0;
+  const cardCounts = new Map<string, number>();
+  let start = 0;
+
+  for (let end = 0; end < sorted.length; end += 1) {
+    const entering = sorted[end]!;
+    if (entering.declined) {
+      declinesInWindow += 1;
+    }
+    if (entering.card_fingerprint) {
+      cardCounts.set(entering.card_fingerprint, (cardCounts.get(entering.card_fingerprint) ?? 0) + 1);
+    }
+
+    while (entering.created - sorted[start]!.created >= window.seconds) {
+      const leaving = sorted[start]!;
+      if (leaving.declined) {
+        declinesInWindow -= 1;
+      }
+      if (leaving.card_fingerprint) {
+        const remaining = (cardCounts.get(leaving.card_fingerprint) ?? 1) - 1;
+        if (remaining === 0) {
+          cardCounts.delete(leaving.card_fingerprint);
+        } else {
+          cardCounts.set(leaving.card_fingerprint, remaining);
+        }
+      }
+      start += 1;
+    }
+
+    attempts = Math.max(attempts, end - start + 1);
+    declines = Math.max(declines, declinesInWindow);
+    distinctCards = Math.max(distinctCards, cardCounts.size);
+  }
+
+  const exceeded: VelocityWindowStats['exceeded'] = [];
+  if (window.max_attempts !== undefined && attempts > window.max_attempts) {
+    exceeded.push('attempts');
+  }
+  if (window.max_declines !== undefined && declines > window.max_declines) {
+    exceeded.push('declines');
+  }
+  if (window.max_distinct_cards !== undefined && distinctCards > window.max_distinct_cards) {
+    exceeded.push('distinct_cards');
+  }
+
+  return {
+    label: window.label,
+    seconds: window.seconds,
+    attempts,
+    declines,
+    distinct_cards: distinctCards,
+    exceeded,
+  };
+}
+
+function peakAttempts(entity: VelocityEntity): number {
+  return Math.max(0, ...entity.windows.map((window) => window.attempts));
+}
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import Stripe from 'stripe';
+
+import { Logger } from './logger.js';
+import { compileWebhookConfig, WebhookEventStore, WebhookReceiver } from './webhooks.js';
+import type { StoredWebhookEvent } from './webhooks.js';
+
+const secret = 'whsec_test_receiver_secret';
+
+function receiver(overrides: Record<string, unknown> = {}): WebhookReceiver {
+  const config = compileWebhookConfig({ signing_secret: secret, ...overrides });
+  assert.ok(config);
+  return new WebhookReceiver(config, new Logger('error', 'test', []));
+}
+
+function payload(id: string, type = 'charge.dispute.created'): string {
+  return JSON.stringify({
+    id,
+    object: 'event',
+    type,
+    created: 1700000000,
+    livemode: false,
+    api_version: '2025-09-30.clover',
+    data: { object: { id: 'dp_test', object: 'dispute', charge: 'ch_test' } },
+  });
+}
+
+function sign(body: string, options: { secret?: string; timestamp?: number } = {}): string {
+  return Stripe.webhooks.generateTestHeaderString({
+    payload: body,
+    secret: options.secret ?? secret,
+    ...(options.timestamp !== undefined ? { timestamp: options.timestamp } : {}),
+  });
+}
+
+describe('WebhookReceiver.ingest', () => {
+  it('stores a locally signed event with its related IDs', () => {
+    const webhooks = receiver();
+    const body = payload('evt_signed');
+
+    const { event, duplicate } = webhooks.ingest(body, sign(body));
+
+    assert.equal(duplicate, false);
+    assert.equal(event.type, 'charge.dispute.created');
+    assert.equal(event.object_id, 'dp_test');
+    assert.deepEqual(event.related_ids, ['ch_test']);
+    assert.equal(webhooks.status().received, 1);
+    assert.equal(webhooks.store.size, 1);
+  });
+
+  it('rejects a payload signed with another secret', () => {
+    const webhooks = receiver();
+    const body = payload('evt_forged');
+
+    assert.throws(
+      () => webhooks.ingest(body, sign(body, { secret: 'whsec_someone_else' })),
+      Stripe.errors.StripeSignatureVerificationError
+    );
+    assert.equal(webhooks.status().rejected, 1);
+    assert.equal(webhooks.store.size, 0);
+  });
+
+  it('rejects a payload changed after signing', () => {
+    const webhooks = receiver();
+    const signature = sign(payload('evt_original'));
+
+    assert.throws(() => webhooks.ingest(payload('evt_tampered'), signature));
+    assert.equal(webhooks.status().rejected, 1);
+  });
+
+  it('rejects a signature older than tolerance_seconds', () => {
+    const webhooks = receiver({ tolerance_seconds: 60 });
+    const body = payload('evt_replayed');
+    const timestamp = Math.floor(Date.now() / 1000) - 120;
+
+    assert.throws(() => webhooks.ingest(body, sign(body, { timestamp })), /tolerance/i);
+    assert.equal(webhooks.store.size, 0);
+  });
+
+  it('counts a redelivered event as a duplicate and notifies listeners once', () => {
+    const webhooks = receiver();
+    const notified: StoredWebhookEvent[] = [];
+    webhooks.subscribe((event) => notified.push(event));
+    const body = payload('evt_retried');
+
+    webhooks.ingest(body, sign(body));
+    const retried = webhooks.ingest(body, sign(body));
+
+    assert.equal(retried.duplicate, true);
+    assert.equal(webhooks.store.size, 1);
+    assert.equal(webhooks.status().duplicates, 1);
+    assert.equal(notified.length, 1);
+  });
+});
+
+describe('WebhookEventStore', () => {
+  const stored = (id: string, type: string, created: number): StoredWebhookEvent => ({
+    id,
+    type,
+    created,
+    livemode: false,
+    account: null,
+    api_version: null,
+    object_type: null,
+    object_id: `obj_${id}`,
+    related_ids: [],
+    received_at: new Date(0).toISOString(),
+    object: {},
+  });
+
+  it('drops the oldest events past its capacity and lets them be stored again', () => {
+    const store = new WebhookEventStore(2);
+    store.add(stored('evt_1', 'charge.dispute.created', 1));
+    store.add(stored('evt_2', 'charge.dispute.created', 2));
+    store.add(stored('evt_3', 'charge.dispute.created', 3));
+
+    assert.deepEqual(
+      store.query({ limit: 10 }).map((event) => event.id),
+      ['evt_3', 'evt_2']
+    );
+    assert.equal(store.add(stored('evt_1', 'charge.dispute.created', 1)), true);
+  });
+
+  it('filters by trailing-wildcard type, object ID and creation time', () => {
+    const store = new WebhookEventStore(10);
+    store.add(stored('evt_1', 'charge.dispute.created', 10));
+    store.add(stored('evt_2', 'radar.early_fraud_warning.created', 20));
+    store.add(stored('evt_3', 'charge.dispute.closed', 30));
+
+    assert.deepEqual(
+      store.query({ types: ['charge.dispute.*'], limit: 10 }).map((event) => event.id),
+      ['evt_3', 'evt_1']
+    );
+    assert.deepEqual(
+      store.query({ objectId: 'obj_evt_2', limit: 10 }).map((event) => event.id),
+      ['evt_2']
+    );
+    assert.deepEqual(
+      store.query({ createdGte: 20, limit: 1 }).map((event) => event.id),
+      ['evt_3']
+    );
+  });
+});
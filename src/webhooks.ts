@@ -0,0 +1,468 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import Stripe from 'stripe';
+import { z } from 'zod';
+
+import { parseConfigSection } from './config.js';
+import type { Logger } from './logger.js';
+
+export const webhookNotifyDefaults = [
+  'radar.early_fraud_warning.created',
+  'charge.dispute.created',
+] as const;
+
+export const webhookConfigSchema = z
+  .object({
+    signing_secret: z
+      .string()
+      .trim()
+      .regex(/^whsec_\S+$/, 'Expected a webhook signing secret (whsec_...).')
+      .describe('Signing secret of the Stripe webhook endpoint (whsec_...).'),
+    port: z
+      .number()
+      .int()
+      .min(1)
+      .max(65535)
+      .default(8082)
+      .describe('Port the webhook receiver listens on (default: 8082).'),
+    host: z
+      .string()
+      .trim()
+      .min(1)
+      .default('127.0.0.1')
+      .describe(
+        'Interface the webhook receiver binds to (default: 127.0.0.1). Use 0.0.0.0 to accept deliveries from other hosts.'
+      ),
+    path: z
+      .string()
+      .trim()
+      .regex(/^\/\S*$/, 'Path must start with "/".')
+      .default('/webhooks/stripe')
+      .describe('Request path that accepts Stripe events (default: /webhooks/stripe).'),
+    tolerance_seconds: z
+      .number()
+      .int()
+      .positive()
+      .max(3600)
+      .default(300)
+      .describe('Maximum age of a signed payload before it is rejected as a replay (default: 300).'),
+    max_events: z
+      .number()
+      .int()
+      .positive()
+      .max(10000)
+      .default(500)
+      .describe('Number of events kept in memory; the oldest are dropped first (default: 500).'),
+    notify_event_types: z
+      .array(z.string().trim().min(1))
+      .default([...webhookNotifyDefaults])
+      .describe(
+        'Event types forwarded to connected MCP clients as notifications. Supports a trailing "*", e.g. "charge.dispute.*".'
+      ),
+  })
+  .strict();
+
+export type WebhookConfigInput = z.input<typeof webhookConfigSchema>;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+
+export interface StoredWebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  livemode: boolean;
+  account: string | null;
+  api_version: string | null;
+  object_type: string | null;
+  object_id: string | null;
+  related_ids: string[];
+  received_at: string;
+  object: Record<string, unknown>;
+}
+
+export interface WebhookEventQuery {
+  types?: string[];
+  objectId?: string;
+  createdGte?: number;
+  limit: number;
+}
+
+export interface WebhookReceiverStatus {
+  listening: boolean;
+  host: string;
+  port: number;
+  path: string;
+  stored: number;
+  capacity: number;
+  received: number;
+  duplicates: number;
+  rejected: number;
+  last_received_at: string | null;
+}
+
+type WebhookListener = (event: StoredWebhookEvent) => void;
+
+const maxBodyBytes = 1024 * 1024;
+const relatedIdFields = ['charge', 'payment_intent', 'customer', 'review', 'dispute'] as const;
+
+export function compileWebhookConfig(config: WebhookConfigInput | undefined): WebhookConfig | null {
+  if (config === undefined) {
+    return null;
+  }
+  return parseConfigSection('webhooks', webhookConfigSchema, config);
+}
+
+export function matchesEventType(pattern: string, type: string): boolean {
+  return pattern.endsWith('*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
+
+/**
+ * Keeps the most recent events in arrival order, dropping the oldest once
+ * the capacity is reached. Stripe retries deliveries, so events are
+ * de-duplicated by ID.
+ */
+export class WebhookEventStore {
+  private readonly events: StoredWebhookEvent[] = [];
+  private readonly ids = new Set<string>();
+
+  constructor(readonly capacity: number) {}
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  add(event: StoredWebhookEvent): boolean {
+    if (this.ids.has(event.id)) {
+      return false;
+    }
+    this.events.push(event);
+    this.ids.add(event.id);
+    while (this.events.length > this.capacity) {
+      const dropped = this.events.shift();
+      if (dropped) {
+        this.ids.delete(dropped.id);
+      }
+    }
+    return true;
+  }
+
+  query({ types, objectId, createdGte, limit }: WebhookEventQuery): StoredWebhookEvent[] {
+    const matches: StoredWebhookEvent[] = [];
+    for (let index = this.events.length - 1; index >= 0 && matches.length < limit; index -= 1) {
+      const event = this.events[index]!;
+      if (types && types.length > 0 && !types.some((pattern) => matchesEventType(pattern, event.type))) {
+        continue;
+      }
+      if (objectId && event.object_id !== objectId && !event.related_ids.includes(objectId)) {
+        continue;
+      }
+      if (createdGte !== undefined && event.created < createdGte) {
+        continue;
+      }
+      matches.push(event);
+    }
+    return matches;
+  }
+}
+
+export class WebhookReceiver {
+  readonly store: WebhookEventStore;
+  private readonly listeners = new Set<WebhookListener>();
+  private httpServer: Server | null = null;
+  private listening = false;
+  private received = 0;
+  private duplicates = 0;
+  private rejected = 0;
+  private lastReceivedAt: string | null = null;
+
+  constructor(
+    readonly config: WebhookConfig,
+    private readonly logger: Logger
+  ) {
+    this.store = new WebhookEventStore(config.max_events);
+  }
+
+  /**
+   * Signs a probe payload with the configured secret, verifies it, and then
+   * binds the listener. Resolves once the port is open; rejects when the
+   * secret cannot verify its own signature or the port cannot be bound.
+   */
+  start(): Promise<void> {
+    if (this.httpServer) {
+      return Promise.resolve();
+    }
+    try {
+      this.checkSignedPayload();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        this.logger.error('Webhook handler failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+          error_stack: error instanceof Error ? error.stack : undefined,
+        });
+        if (!res.headersSent) {
+          respond(res, 500, { error: 'Internal error' });
+        }
+      });
+    });
+    this.httpServer = httpServer;
+    return new Promise((resolve, reject) => {
+      httpServer.once('error', (error) => {
+        this.httpServer = null;
+        this.listening = false;
+        this.logger.error('Webhook receiver failed to listen', {
+          host: this.config.host,
+          port: this.config.port,
+          error_message: error.message,
+        });
+        reject(
+          new Error(
+            `Webhook receiver could not listen on ${this.config.host}:${this.config.port}: ${error.message}`
+          )
+        );
+      });
+      httpServer.listen(this.config.port, this.config.host, () => {
+        this.listening = true;
+        this.logger.info('Webhook receiver listening', {
+          host: this.config.host,
+          port: this.config.port,
+          path: this.config.path,
+        });
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    this.listening = false;
+    if (!httpServer) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => httpServer.close(() => resolve()));
+  }
+
+  subscribe(listener: WebhookListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  status(): WebhookReceiverStatus {
+    return {
+      listening: this.listening,
+      host: this.config.host,
+      port: this.config.port,
+      path: this.config.path,
+      stored: this.store.size,
+      capacity: this.store.capacity,
+      received: this.received,
+      duplicates: this.duplicates,
+      rejected: this.rejected,
+      last_received_at: this.lastReceivedAt,
+    };
+  }
+
+  /**
+   * Verifies and stores a raw delivery. Exposed separately from the HTTP
+   * handler so locally signed payloads can be fed in directly.
+   */
+  ingest(payload: string | Buffer, signature: string): { event: StoredWebhookEvent; duplicate: boolean } {
+    let verified: Stripe.Event;
+    try {
+      verified = Stripe.webhooks.constructEvent(
+        payload,
+        signature,
+        this.config.signing_secret,
+        this.config.tolerance_seconds
+      );
+    } catch (error) {
+      this.rejected += 1;
+      throw error;
+    }
+
+    const event = storedEventFrom(verified);
+    const added = this.store.add(event);
+    this.received += 1;
+    this.lastReceivedAt = event.received_at;
+    if (!added) {
+      this.duplicates += 1;
+      this.logger.debug('Duplicate webhook event ignored', { event_id: event.id, type: event.type });
+      return { event, duplicate: true };
+    }
+
+    this.logger.info('Webhook event stored', {
+      event_id: event.id,
+      type: event.type,
+      object_id: event.object_id,
+    });
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.warn('Webhook listener failed', {
+          event_id: event.id,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return { event, duplicate: false };
+  }
+
+  /**
+   * Round-trips a locally signed payload through the same verification used
+   * for deliveries, so a secret or tolerance the Stripe SDK rejects fails
+   * startup rather than every delivery.
+   */
+  private checkSignedPayload(): void {
+    const payload = JSON.stringify({
+      id: 'evt_webhook_receiver_check',
+      object: 'event',
+      type: 'webhook_receiver.check',
+      data: { object: {} },
+    });
+    const signature = Stripe.webhooks.generateTestHeaderString({
+      payload,
+      secret: this.config.signing_secret,
+    });
+    const event = Stripe.webhooks.constructEvent(
+      payload,
+      signature,
+      this.config.signing_secret,
+      this.config.tolerance_seconds
+    );
+    if (event.id !== 'evt_webhook_receiver_check') {
+      throw new Error('Webhook receiver self-check returned an unexpected event.');
+    }
+    this.logger.debug('Webhook signature self-check passed');
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+    if (path !== this.config.path) {
+      respond(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      respond(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const signature = req.headers['stripe-signature'];
+    if (typeof signature !== 'string' || signature.length === 0) {
+      this.rejected += 1;
+      this.logger.warn('Webhook rejected: missing Stripe-Signature header');
+      respond(res, 400, { error: 'Missing Stripe-Signature header' });
+      return;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      this.rejected += 1;
+      this.logger.warn('Webhook rejected: payload too large', { max_bytes: maxBodyBytes });
+      respond(res, 413, { error: 'Payload too large' });
+      return;
+    }
+
+    try {
+      const { event, duplicate } = this.ingest(body, signature);
+      respond(res, 200, { received: true, id: event.id, duplicate });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Webhook rejected: signature verification failed', {
+        error_message: message,
+      });
+      respond(res, 400, { error: 'Signature verification failed' });
+    }
+  }
+}
+
+const receivers = new Map<number, { receiver: WebhookReceiver; ready: Promise<void> }>();
+
+/**
+ * Sessions share one receiver per port, so every connected client sees the
+ * same event store. A second session asking for the same port with a
+ * different secret or path is a configuration error. `ready` rejects when the
+ * receiver fails to start; the failed receiver is dropped so the next session
+ * retries instead of reusing a receiver that never listened.
+ */
+export function acquireWebhookReceiver(
+  config: WebhookConfig,
+  logger: Logger
+): { receiver: WebhookReceiver; ready: Promise<void> } {
+  const existing = receivers.get(config.port);
+  if (existing) {
+    if (
+      existing.receiver.config.signing_secret !== config.signing_secret ||
+      existing.receiver.config.path !== config.path
+    ) {
+      throw new Error(
+        `Invalid webhooks: port ${config.port} is already serving a receiver with a different signing secret or path.`
+      );
+    }
+    return existing;
+  }
+
+  const receiver = new WebhookReceiver(config, logger.child('webhooks'));
+  const ready = receiver.start().catch((error: unknown) => {
+    if (receivers.get(config.port)?.receiver === receiver) {
+      receivers.delete(config.port);
+    }
+    throw error;
+  });
+  const entry = { receiver, ready };
+  receivers.set(config.port, entry);
+  return entry;
+}
+
+function storedEventFrom(event: Stripe.Event): StoredWebhookEvent {
+  const object = event.data.object as unknown as Record<string, unknown>;
+  const relatedIds = relatedIdFields
+    .map((field) => object[field])
+    .filter((value): value is string => typeof value === 'string');
+  return {
+    id: event.id,
+    type: event.type,
+    created: event.created,
+    livemode: event.livemode,
+    account: event.account ?? null,
+    api_version: event.api_version ?? null,
+    object_type: typeof object.object === 'string' ? object.object : null,
+    object_id: typeof object.id === 'string' ? object.id : null,
+    related_ids: relatedIds,
+    received_at: new Date().toISOString(),
+    object,
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        tooLarge = true;
+        chunks.length = 0;
+        return;
+      }
+      if (!tooLarge) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(tooLarge ? null : Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function respond(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}